@@ -29,6 +29,11 @@ export class ContentWriterBridge {
   }
 
   private extractSecondaryKeywords(brief: ContentBrief): string[] {
+    // Real ranking queries beat keywords guessed from headings
+    if (brief.secondaryKeywords && brief.secondaryKeywords.length > 0) {
+      return brief.secondaryKeywords.slice(0, 5)
+    }
+
     const keywords: string[] = []
 
     for (const h2 of brief.h2Additions) {
@@ -7,20 +7,48 @@ import type {
   PageData,
   ActionBucket,
   ContentBrief,
+  ConsolidationStep,
 } from '../core/types.js'
 import {
   CONTENT_RULES,
   SCHEMA_STACKS,
-  BUCKET_INSTRUCTIONS,
+  getBucketInstructions,
 } from '../core/constants.js'
+import type { BucketRegistry } from '../core/buckets.js'
+import { toDateKey } from '../data/history.js'
 
 export class BriefGenerator {
+  private buckets?: BucketRegistry
+  private date: string
+
+  /**
+   * @param buckets Where custom buckets' instructions are looked up
+   * @param date    Day the briefs are written for, default today
+   */
+  constructor(buckets?: BucketRegistry, date: Date | string = new Date()) {
+    this.buckets = buckets
+    this.date = toDateKey(date)
+  }
+
+  /**
+   * The day briefs are written for: titles, meta descriptions and
+   * headings that name a year use its year
+   */
+  setDate(date: Date | string): void {
+    this.date = toDateKey(date)
+  }
+
+  getDate(): string {
+    return this.date
+  }
+
   generate(page: PageData, bucket: ActionBucket): ContentBrief {
     const isPillar = this.isPillarContent(page)
     const wordCount = this.getTargetWordCount(isPillar)
-    const bucketConfig = BUCKET_INSTRUCTIONS[bucket]
+    const bucketConfig = getBucketInstructions(bucket, this.buckets)
+    const consolidation = this.getConsolidation(page, [bucket])
 
-    return {
+    const brief: ContentBrief = {
       url: page.url,
       targetKeyword: page.primaryKeyword,
       bucket,
@@ -33,10 +61,11 @@ export class BriefGenerator {
       h2Additions: this.generateH2Additions(page, bucket),
       internalLinks: this.generateInternalLinkSuggestions(page),
 
-      priorityTasks: bucketConfig.tasks,
+      priorityTasks: [...this.getConsolidationTasks(page, consolidation), ...bucketConfig.tasks],
 
       schemaStack: this.getSchemaStack(page),
 
+      secondaryKeywords: this.getSecondaryKeywords(page),
       keywordDensityTarget: CONTENT_RULES.keywordDensity.target,
       mandatoryPlacements: CONTENT_RULES.mandatoryPlacements,
 
@@ -50,6 +79,74 @@ export class BriefGenerator {
 
       status: 'draft',
     }
+    if (consolidation) brief.consolidation = consolidation
+
+    return brief
+  }
+
+  /**
+   * One brief for a page that matched several buckets: the first bucket's
+   * meta strategy, plus every bucket's headings and priority tasks
+   */
+  generateCombined(page: PageData, buckets: ActionBucket[]): ContentBrief {
+    const [primary, ...secondary] = buckets
+    return this.addSecondaryBuckets(this.generate(page, primary), page, secondary)
+  }
+
+  /**
+   * Fold further buckets' headings and priority tasks into a brief
+   * written for `brief.bucket`, locally or by the federation
+   */
+  addSecondaryBuckets(brief: ContentBrief, page: PageData, secondary: ActionBucket[]): ContentBrief {
+    if (secondary.length === 0) return brief
+
+    const consolidation = this.getConsolidation(page, [brief.bucket, ...secondary])
+    const combined: ContentBrief = {
+      ...brief,
+      secondaryBuckets: secondary,
+      h2Additions: [...new Set([
+        ...brief.h2Additions,
+        ...secondary.flatMap(b => this.generateH2Additions(page, b)),
+      ])],
+      priorityTasks: [...new Set([
+        ...this.getConsolidationTasks(page, consolidation),
+        ...brief.priorityTasks,
+        ...secondary.flatMap(b => getBucketInstructions(b, this.buckets).tasks),
+      ])],
+    }
+    if (consolidation) combined.consolidation = consolidation
+
+    return combined
+  }
+
+  /**
+   * For the URL a CANNIBALIZATION brief keeps: what happens to each
+   * competing URL
+   */
+  private getConsolidation(page: PageData, buckets: ActionBucket[]): ConsolidationStep[] | undefined {
+    if (!buckets.includes('CANNIBALIZATION') || !page.cannibalization) return undefined
+    return page.cannibalization.competitors
+  }
+
+  private getConsolidationTasks(page: PageData, steps?: ConsolidationStep[]): string[] {
+    if (!steps || !page.cannibalization) return []
+
+    const tasks = [`Keep ${page.url} as the page for "${page.cannibalization.queries[0]}"`]
+    for (const step of steps) {
+      const queries = step.queries.map(q => `"${q}"`).join(', ')
+      switch (step.role) {
+        case 'redirect':
+          tasks.push(`301 redirect ${step.url} to ${page.url} (shares ${queries})`)
+          break
+        case 'merge':
+          tasks.push(`Merge the ${queries} content of ${step.url} into this page, then retarget ${step.url} away from it`)
+          break
+        case 'keep':
+          tasks.push(`Leave ${queries} to ${step.url} and de-emphasize it here`)
+          break
+      }
+    }
+    return tasks
   }
 
   private isPillarContent(page: PageData): boolean {
@@ -79,7 +176,7 @@ export class BriefGenerator {
 
   private generateTitleRecommendations(page: PageData, bucket: ActionBucket): string[] {
     const kw = page.primaryKeyword
-    const year = new Date().getFullYear()
+    const year = this.getYear()
     const recommendations: string[] = []
 
     recommendations.push(`${this.capitalize(kw)}: Complete Guide`)
@@ -99,13 +196,17 @@ export class BriefGenerator {
     return recommendations.slice(0, 3)
   }
 
+  private getYear(): number {
+    return Number(this.date.slice(0, 4))
+  }
+
   private generateH1Recommendation(page: PageData): string {
     return this.capitalize(page.primaryKeyword)
   }
 
   private generateMetaDescription(page: PageData, bucket: ActionBucket): string {
     const kw = page.primaryKeyword
-    const year = new Date().getFullYear()
+    const year = this.getYear()
 
     switch (bucket) {
       case 'CTR_FIX':
@@ -151,7 +252,7 @@ export class BriefGenerator {
         break
 
       case 'RELEVANCE_REBUILD': {
-        const year = new Date().getFullYear()
+        const year = this.getYear()
         baseH2s.push(
           `${this.capitalize(kw)} in ${year}: What's Changed`,
           `Latest ${this.capitalize(kw)} Trends and Statistics`,
@@ -178,6 +279,15 @@ export class BriefGenerator {
           `Expert Tips for ${this.capitalize(kw)}`,
         )
         break
+
+      case 'CONTENT_DECAY': {
+        const year = this.getYear()
+        baseH2s.push(
+          `What's New in ${this.capitalize(kw)} for ${year}`,
+          `${this.capitalize(kw)}: Current Examples and Data`,
+        )
+        break
+      }
     }
 
     return baseH2s
@@ -191,6 +301,19 @@ export class BriefGenerator {
     ]
   }
 
+  /**
+   * Other queries the page already earns impressions for, most
+   * impressions first (then clicks)
+   */
+  private getSecondaryKeywords(page: PageData): string[] {
+    const primary = page.primaryKeyword.toLowerCase()
+    return (page.queries ?? [])
+      .filter(q => q.impressions > 0 && q.query.toLowerCase() !== primary)
+      .sort((a, b) => b.impressions - a.impressions || b.clicks - a.clicks)
+      .slice(0, 5)
+      .map(q => q.query)
+  }
+
   private getSchemaStack(page: PageData): string[] {
     const base = [...SCHEMA_STACKS.base]
     let intentStack: string[] = []
@@ -224,8 +347,8 @@ export class BriefGenerator {
   }
 }
 
-export function createBriefGenerator(): BriefGenerator {
-  return new BriefGenerator()
+export function createBriefGenerator(buckets?: BucketRegistry, date?: Date | string): BriefGenerator {
+  return new BriefGenerator(buckets, date)
 }
 
 export function generateBrief(page: PageData, bucket: ActionBucket): ContentBrief {
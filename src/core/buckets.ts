@@ -0,0 +1,202 @@
+// ============================================================
+// cr0n-engine — Bucket Registry
+// Custom action buckets defined as data, alongside the built-ins
+// ============================================================
+
+import { readFile } from 'node:fs/promises'
+import type {
+  ActionBucket,
+  BucketCondition,
+  BucketDefinition,
+  BucketOperator,
+  BucketRule,
+  SuccessMetric,
+  WeightConfig,
+} from './types.js'
+import { ACTION_BUCKETS } from './types.js'
+
+const OPERATORS: BucketOperator[] = ['>=', '<=', '>', '<', '=', '!=', 'in', 'contains', 'matches']
+const SUCCESS_METRICS: SuccessMetric[] = ['ctr', 'position', 'impressions', 'clicks', 'conversions']
+const WEIGHT_KEYS: Array<keyof WeightConfig> = ['impressions', 'position', 'ctrGap', 'conversions', 'freshness']
+
+function validateRule(rule: unknown, bucket: string, path: string): BucketRule {
+  const raw = rule as Record<string, unknown> | null
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Bucket ${bucket}: ${path} must be an object`)
+  }
+
+  for (const key of ['all', 'any'] as const) {
+    if (key in raw) {
+      const list = raw[key]
+      if (!Array.isArray(list) || list.length === 0) {
+        throw new Error(`Bucket ${bucket}: ${path}.${key} must be a non-empty array`)
+      }
+      const rules = list.map((r, i) => validateRule(r, bucket, `${path}.${key}[${i}]`))
+      return key === 'all' ? { all: rules } : { any: rules }
+    }
+  }
+
+  if (typeof raw.field !== 'string' || !raw.field) {
+    throw new Error(`Bucket ${bucket}: ${path} needs a "field", or "all" / "any"`)
+  }
+  if (!OPERATORS.includes(raw.op as BucketOperator)) {
+    throw new Error(`Bucket ${bucket}: ${path} has unknown operator "${raw.op}"`)
+  }
+  if (raw.value === undefined || raw.value === null) {
+    throw new Error(`Bucket ${bucket}: ${path} is missing a value`)
+  }
+
+  const op = raw.op as BucketOperator
+  const value = raw.value as Record<string, unknown>
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    if (typeof value.field !== 'string' || (value.multiply !== undefined && typeof value.multiply !== 'number')) {
+      throw new Error(`Bucket ${bucket}: ${path}.value must be a literal or { field, multiply? }`)
+    }
+  }
+  if (op === 'in' && !Array.isArray(raw.value)) {
+    throw new Error(`Bucket ${bucket}: ${path} uses "in" without an array value`)
+  }
+  if (op === 'matches') {
+    if (typeof raw.value !== 'string') {
+      throw new Error(`Bucket ${bucket}: ${path} uses "matches" without a pattern string`)
+    }
+    try {
+      new RegExp(raw.value)
+    } catch {
+      throw new Error(`Bucket ${bucket}: ${path} has an invalid pattern "${raw.value}"`)
+    }
+  }
+
+  return { field: raw.field, op, value: raw.value as BucketCondition['value'] }
+}
+
+/**
+ * Check a definition from parsed JSON or code. Throws naming the bucket
+ * and the offending part.
+ */
+export function validateBucketDefinition(definition: unknown): BucketDefinition {
+  const raw = definition as Record<string, unknown> | null
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Bucket definition is not an object')
+  }
+
+  const name = raw.name
+  if (typeof name !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(name)) {
+    throw new Error(`Bucket name "${name}" must be UPPER_SNAKE_CASE`)
+  }
+  if ((ACTION_BUCKETS as string[]).includes(name)) {
+    throw new Error(`Bucket ${name} is built in and can't be redefined`)
+  }
+
+  const success = raw.success as Record<string, unknown> | undefined
+  if (!success || !SUCCESS_METRICS.includes(success.metric as SuccessMetric)) {
+    throw new Error(`Bucket ${name}: success.metric must be one of ${SUCCESS_METRICS.join(', ')}`)
+  }
+  if (typeof success.improvement !== 'number' || !Number.isFinite(success.improvement)) {
+    throw new Error(`Bucket ${name}: success.improvement must be a number`)
+  }
+  if (success.maintain && success.metric !== 'position') {
+    throw new Error(`Bucket ${name}: success.maintain only applies to the position metric`)
+  }
+
+  if (!Array.isArray(raw.tasks) || raw.tasks.some(t => typeof t !== 'string')) {
+    throw new Error(`Bucket ${name}: tasks must be an array of strings`)
+  }
+  if (!WEIGHT_KEYS.includes(raw.creditWeight as keyof WeightConfig)) {
+    throw new Error(`Bucket ${name}: creditWeight must be one of ${WEIGHT_KEYS.join(', ')}`)
+  }
+
+  return {
+    name,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    when: validateRule(raw.when, name, 'when'),
+    success: {
+      metric: success.metric as SuccessMetric,
+      improvement: success.improvement,
+      maintain: success.maintain === true || undefined,
+      description: typeof success.description === 'string'
+        ? success.description
+        : `${success.metric} improved by ${success.improvement}`,
+    },
+    priorityAction: typeof raw.priorityAction === 'string' ? raw.priorityAction : name,
+    instruction: typeof raw.instruction === 'string' ? raw.instruction : '',
+    tasks: raw.tasks as string[],
+    creditWeight: raw.creditWeight as keyof WeightConfig,
+  }
+}
+
+/**
+ * Validate bucket definitions parsed from JSON: an array, or an object
+ * with a `buckets` array
+ */
+export function parseBucketDefinitions(data: unknown): BucketDefinition[] {
+  const list = Array.isArray(data) ? data : (data as { buckets?: unknown } | null)?.buckets
+  if (!Array.isArray(list)) {
+    throw new Error('Bucket definitions must be an array or { buckets: [...] }')
+  }
+  return list.map(validateBucketDefinition)
+}
+
+/**
+ * Read and validate a JSON file of bucket definitions. They still need
+ * passing as `buckets` to createEngine(), or registering on a
+ * BucketRegistry.
+ */
+export async function loadBucketDefinitions(path: string): Promise<BucketDefinition[]> {
+  return parseBucketDefinitions(JSON.parse(await readFile(path, 'utf-8')))
+}
+
+/**
+ * Custom buckets alongside the built-ins. Each engine keeps its own
+ * registry and hands it to the bucketer, evaluator, weight adjuster,
+ * forecaster, planner, brief generator and model adapters, so engines in
+ * one process never see each other's buckets. Components built without
+ * one know the built-ins only.
+ */
+export class BucketRegistry {
+  private custom: Map<string, BucketDefinition> = new Map()
+
+  constructor(definitions: BucketDefinition[] = []) {
+    this.registerAll(definitions)
+  }
+
+  /**
+   * Validate and register a bucket. Registering an existing name
+   * replaces its definition.
+   */
+  register(definition: BucketDefinition): BucketDefinition {
+    const bucket = validateBucketDefinition(definition)
+    this.custom.set(bucket.name, bucket)
+    return bucket
+  }
+
+  registerAll(definitions: BucketDefinition[]): BucketDefinition[] {
+    return definitions.map(d => this.register(d))
+  }
+
+  unregister(name: string): boolean {
+    return this.custom.delete(name)
+  }
+
+  get(name: string): BucketDefinition | undefined {
+    return this.custom.get(name)
+  }
+
+  has(name: string): boolean {
+    return (ACTION_BUCKETS as string[]).includes(name) || this.custom.has(name)
+  }
+
+  /** Custom definitions, in registration order */
+  getCustom(): BucketDefinition[] {
+    return Array.from(this.custom.values())
+  }
+
+  /** Built-in buckets, then custom ones in registration order */
+  getBuckets(): ActionBucket[] {
+    return [...ACTION_BUCKETS, ...this.custom.keys()]
+  }
+}
+
+export function createBucketRegistry(definitions?: BucketDefinition[]): BucketRegistry {
+  return new BucketRegistry(definitions)
+}
@@ -2,34 +2,67 @@
 // cr0n-engine — Runtime Configuration Builder
 // ============================================================
 
-import type { EngineConfig, WeightConfig, ModelWeights, ModelId } from './types.js'
+import type {
+  EngineConfig,
+  WeightConfig,
+  BucketWeights,
+  CTRCurve,
+  BrandConfig,
+  ModelWeights,
+  ModelPosteriors,
+  ModelId,
+  RoutingConfig,
+  ActionBucket,
+} from './types.js'
+import { MODEL_IDS } from './types.js'
 import {
   DEFAULT_WEIGHTS,
-  DEFAULT_MODEL_WEIGHTS,
+  DEFAULT_CTR_CURVE,
+  DEFAULT_BRAND_CONFIG,
   DEFAULT_CONSENSUS_THRESHOLD,
   EVALUATION_CONFIG,
 } from './constants.js'
+import { ModelWeightManager } from '../federation/model-weights.js'
+import { cloneBucketWeights } from '../engine/scorer.js'
+import { resolveBucketPriority } from '../engine/bucketer.js'
+import { resolvePosteriors } from '../federation/posteriors.js'
+import type { BucketRegistry } from './buckets.js'
 
 export interface ResolvedConfig {
   weights: WeightConfig
+  bucketWeights: BucketWeights
+  ctrCurve: CTRCurve
+  brand: BrandConfig
   modelWeights: ModelWeights
+  modelPosteriors: ModelPosteriors
+  routing: RoutingConfig
   maxTasksPerRun: number
   includeMonitorBucket: boolean
+  bucketPriority: ActionBucket[]
   consensusThreshold: number
   evaluationDelayDays: number
   maxActionAgeDays: number
+  evaluationWindowDays: number
   availableModels: ModelId[]
 }
 
 /**
- * Resolve partial user config into a fully populated config with defaults
+ * Resolve partial user config into a fully populated config with defaults.
+ * Model weights start equal over `modelIds` (e.g. the registry's available
+ * models); when omitted, the configured models — or the built-ins if none.
+ * `buckets` holds the custom buckets the priority may name; each starts
+ * with equal model weights.
  */
-export function resolveConfig(config: EngineConfig): ResolvedConfig {
-  // Determine which models have API keys
+export function resolveConfig(
+  config: EngineConfig,
+  modelIds?: ModelId[],
+  buckets?: BucketRegistry
+): ResolvedConfig {
+  // Determine which models have API keys (or a local endpoint)
   const availableModels: ModelId[] = []
   if (config.models) {
     for (const [id, modelConfig] of Object.entries(config.models)) {
-      if (modelConfig?.apiKey) {
+      if (modelConfig?.apiKey || (modelConfig?.adapter && modelConfig.baseURL)) {
         availableModels.push(id as ModelId)
       }
     }
@@ -41,27 +74,28 @@ export function resolveConfig(config: EngineConfig): ResolvedConfig {
     ...config.weights,
   }
 
-  // Merge model weights — use saved if provided, else defaults
-  const modelWeights: ModelWeights = { ...DEFAULT_MODEL_WEIGHTS }
-  if (config.modelWeights) {
-    for (const bucket of Object.keys(modelWeights) as Array<keyof ModelWeights>) {
-      if (config.modelWeights[bucket]) {
-        modelWeights[bucket] = {
-          ...modelWeights[bucket],
-          ...config.modelWeights[bucket],
-        }
-      }
-    }
-  }
+  // Merge model weights — use saved if provided, else equal over the models
+  const weightedModels = modelIds ?? (availableModels.length > 0 ? availableModels : [...MODEL_IDS])
+  const modelWeightManager = new ModelWeightManager(config.modelWeights, weightedModels)
+  if (buckets) modelWeightManager.ensureBuckets(buckets.getBuckets())
+  const modelWeights: ModelWeights = modelWeightManager.getWeights()
+  const modelPosteriors = resolvePosteriors(weightedModels, config.modelPosteriors)
 
   return {
     weights,
+    bucketWeights: cloneBucketWeights(config.bucketWeights),
+    ctrCurve: config.ctrCurve ?? DEFAULT_CTR_CURVE,
+    brand: { ...DEFAULT_BRAND_CONFIG, ...config.brand },
     modelWeights,
+    modelPosteriors,
+    routing: { strategy: 'all', ...config.routing },
     maxTasksPerRun: config.maxTasksPerRun ?? 50,
     includeMonitorBucket: config.includeMonitorBucket ?? false,
+    bucketPriority: resolveBucketPriority(config.bucketPriority, buckets),
     consensusThreshold: config.consensusThreshold ?? DEFAULT_CONSENSUS_THRESHOLD,
     evaluationDelayDays: config.evaluationDelayDays ?? EVALUATION_CONFIG.evaluationDelayDays,
     maxActionAgeDays: config.maxActionAgeDays ?? EVALUATION_CONFIG.maxActionAgeDays,
-    availableModels,
+    evaluationWindowDays: config.evaluationWindowDays ?? EVALUATION_CONFIG.windowDays,
+    availableModels: modelIds ?? availableModels,
   }
 }
@@ -8,9 +8,26 @@ import type {
   LearningConfig,
   BucketCriteria,
   CTRCurve,
+  CTRCurvePosition,
+  CTRCurveFitOptions,
+  BrandConfig,
+  CannibalizationConfig,
+  DecayConfig,
+  ForecastConfig,
+  EffortConfig,
+  ModelId,
   ModelWeights,
+  ModelPricing,
   ActionBucket,
+  BuiltInBucket,
+  SuccessCriteria,
+  BucketInstructions,
+  SignificanceConfig,
+  ControlCohortConfig,
+  DriftGuardConfig,
 } from './types.js'
+import { ACTION_BUCKETS, MODEL_IDS } from './types.js'
+import type { BucketRegistry } from './buckets.js'
 
 // ============================================================
 // Default Weights
@@ -28,20 +45,45 @@ export const DEFAULT_LEARNING_CONFIG: LearningConfig = {
   learningRate: 0.015,
   minWeight: 0.05,
   maxWeight: 0.50,
+  credit: 'gradient',
+  momentum: 0,
+  weightDecay: 0,
+}
+
+export const DEFAULT_DRIFT_GUARD: DriftGuardConfig = {
+  maxDrift: 0.1,
+  boundAlertCycles: 3,
 }
 
 // ============================================================
-// Default Model Weights (equal across all 4 models, per bucket)
+// Default Model Weights (equal across models, per bucket)
 // ============================================================
 
-export const DEFAULT_MODEL_WEIGHTS: ModelWeights = {
-  CTR_FIX:           { claude: 0.25, openai: 0.25, gemini: 0.25, grok: 0.25 },
-  STRIKING_DISTANCE: { claude: 0.25, openai: 0.25, gemini: 0.25, grok: 0.25 },
-  RELEVANCE_REBUILD: { claude: 0.25, openai: 0.25, gemini: 0.25, grok: 0.25 },
-  LOCAL_BOOST:       { claude: 0.25, openai: 0.25, gemini: 0.25, grok: 0.25 },
-  MONITOR:           { claude: 0.25, openai: 0.25, gemini: 0.25, grok: 0.25 },
+/**
+ * Equal starting weights over the given models for each of `buckets`.
+ * Buckets left out, such as custom ones, start equal when first used.
+ */
+export function createEqualModelWeights(
+  modelIds: readonly ModelId[],
+  buckets: readonly ActionBucket[] = ACTION_BUCKETS
+): ModelWeights {
+  const share = modelIds.length > 0
+    ? Math.round((1 / modelIds.length) * 10000) / 10000
+    : 0
+
+  const weights = {} as ModelWeights
+  for (const bucket of buckets) {
+    weights[bucket] = {}
+    for (const id of modelIds) {
+      weights[bucket][id] = share
+    }
+  }
+  return weights
 }
 
+/** Equal weights over the four built-in models, in the built-in buckets */
+export const DEFAULT_MODEL_WEIGHTS: ModelWeights = createEqualModelWeights(MODEL_IDS)
+
 // ============================================================
 // Expected CTR by Position (Industry Averages)
 // ============================================================
@@ -63,28 +105,75 @@ export const DEFAULT_CTR_CURVE: CTRCurve = {
   dataSource: 'industry_average',
 }
 
-export function getExpectedCTR(position: number, curve: CTRCurve = DEFAULT_CTR_CURVE): number {
+export const CTR_CURVE_POSITIONS: CTRCurvePosition[] = [
+  'position1',
+  'position2',
+  'position3',
+  'position4',
+  'position5',
+  'position6',
+  'position7',
+  'position8',
+  'position9',
+  'position10',
+  'position11_20',
+  'position21Plus',
+]
+
+export const DEFAULT_CTR_FIT: CTRCurveFitOptions = {
+  minImpressions: 10,
+  priorStrength: 1000,
+  monotonic: true,
+  useQueries: true,
+  segmentBy: 'none',
+  minSegmentImpressions: 5000,
+  brandTerms: [],
+  branded: 'include',
+}
+
+export const DEFAULT_BRAND_CONFIG: BrandConfig = {
+  terms: [],
+  mode: 'separate',
+}
+
+export function getCTRCurvePosition(position: number): CTRCurvePosition {
   const pos = Math.round(position)
 
-  if (pos <= 0) return curve.position1
-  if (pos === 1) return curve.position1
-  if (pos === 2) return curve.position2
-  if (pos === 3) return curve.position3
-  if (pos === 4) return curve.position4
-  if (pos === 5) return curve.position5
-  if (pos === 6) return curve.position6
-  if (pos === 7) return curve.position7
-  if (pos === 8) return curve.position8
-  if (pos === 9) return curve.position9
-  if (pos === 10) return curve.position10
-  if (pos <= 20) return curve.position11_20
-  return curve.position21Plus
+  if (pos <= 1) return 'position1'
+  if (pos <= 10) return CTR_CURVE_POSITIONS[pos - 1]
+  if (pos <= 20) return 'position11_20'
+  return 'position21Plus'
+}
+
+/**
+ * Expected CTR at `position`. A `segment` (e.g. the page's intent) reads
+ * the curve's matching segment when it has one.
+ */
+export function getExpectedCTR(
+  position: number,
+  curve: CTRCurve = DEFAULT_CTR_CURVE,
+  segment?: string
+): number {
+  const source = (segment && curve.segments?.[segment]) || curve
+  return source[getCTRCurvePosition(position)]
 }
 
 // ============================================================
 // Bucket Criteria
 // ============================================================
 
+// A page is classified into the first bucket it matches in this order.
+// Buckets left out of a custom order keep their relative place after it.
+export const BUCKET_PRIORITY: ActionBucket[] = [
+  'CANNIBALIZATION',
+  'CONTENT_DECAY',
+  'MONITOR',
+  'CTR_FIX',
+  'STRIKING_DISTANCE',
+  'LOCAL_BOOST',
+  'RELEVANCE_REBUILD',
+]
+
 export const BUCKET_CRITERIA: BucketCriteria = {
   CTR_FIX: {
     minImpressions: 500,
@@ -106,6 +195,50 @@ export const BUCKET_CRITERIA: BucketCriteria = {
   MONITOR: {
     maxPosition: 3,
   },
+  CANNIBALIZATION: {
+    minImpressions: 200,
+  },
+  CONTENT_DECAY: {
+    maxPosition: 20,
+  },
+}
+
+// Meta rewrites are quick; an overhaul rewrites the whole page
+export const DEFAULT_EFFORT: EffortConfig = {
+  wordsPerHour: 500,
+  buckets: {
+    CTR_FIX: { baseHours: 1, rewriteShare: 0.1 },
+    STRIKING_DISTANCE: { baseHours: 1.5, rewriteShare: 0.4 },
+    RELEVANCE_REBUILD: { baseHours: 2, rewriteShare: 1 },
+    LOCAL_BOOST: { baseHours: 1.5, rewriteShare: 0.2 },
+    MONITOR: { baseHours: 0.5, rewriteShare: 0 },
+    CANNIBALIZATION: { baseHours: 3, rewriteShare: 0.5 },
+    CONTENT_DECAY: { baseHours: 1.5, rewriteShare: 0.5 },
+  },
+  default: { baseHours: 2, rewriteShare: 0.3 },
+}
+
+export const DEFAULT_FORECAST: ForecastConfig = {
+  confidence: 0.8,
+  minSamples: 5,
+  // Before any outcomes: half the full-success gain, anywhere from none to all of it
+  prior: { expected: 0.5, low: 0, high: 1 },
+  // One outlier shouldn't swing a bucket: from losing the forecast gain to three times it
+  bounds: { low: -1, high: 3 },
+}
+
+export const DEFAULT_DECAY: DecayConfig = {
+  lookbackDays: 90,
+  minDays: 28,
+  minDecline: 0.2,
+  level: 0.05,
+}
+
+export const DEFAULT_CANNIBALIZATION: CannibalizationConfig = {
+  minQueryImpressions: 100,
+  minShare: 0.1,
+  maxPositionGap: 5,
+  redirectShare: 0.5,
 }
 
 // ============================================================
@@ -181,11 +314,7 @@ export const LOCAL_INDICATORS = {
 // Success Criteria by Bucket
 // ============================================================
 
-export const SUCCESS_CRITERIA: Record<ActionBucket, {
-  metric: string
-  improvement: number
-  description: string
-}> = {
+export const SUCCESS_CRITERIA: Record<BuiltInBucket, SuccessCriteria> = {
   CTR_FIX: {
     metric: 'ctr',
     improvement: 0.20,
@@ -209,8 +338,19 @@ export const SUCCESS_CRITERIA: Record<ActionBucket, {
   MONITOR: {
     metric: 'position',
     improvement: 0,
+    maintain: true,
     description: 'Position maintained or improved',
   },
+  CANNIBALIZATION: {
+    metric: 'clicks',
+    improvement: 0.20,
+    description: 'Kept URL gained 20% or more clicks after consolidation',
+  },
+  CONTENT_DECAY: {
+    metric: 'clicks',
+    improvement: 0.15,
+    description: 'Clicks recovered by 15% or more',
+  },
 }
 
 // ============================================================
@@ -219,19 +359,29 @@ export const SUCCESS_CRITERIA: Record<ActionBucket, {
 
 export const EVALUATION_CONFIG = {
   evaluationDelayDays: 14,
-  minDataDays: 7,
+  minDataDays: 7,          // Snapshots needed in each window to use it
   maxActionAgeDays: 60,
+  windowDays: 28,          // Before/after window length
+}
+
+export const DEFAULT_SIGNIFICANCE: SignificanceConfig = {
+  level: 0.05,
+  minImpressions: 100,
+  minClicks: 20,
+}
+
+export const DEFAULT_CONTROL_COHORT: ControlCohortConfig = {
+  minPages: 3,
+  maxPages: 20,
+  positionTolerance: 3,
+  impressionRatio: 3,
 }
 
 // ============================================================
 // Bucket-Specific Brief Instructions
 // ============================================================
 
-export const BUCKET_INSTRUCTIONS: Record<ActionBucket, {
-  priorityAction: string
-  instruction: string
-  tasks: string[]
-}> = {
+export const BUCKET_INSTRUCTIONS: Record<BuiltInBucket, BucketInstructions> = {
   CTR_FIX: {
     priorityAction: 'REWRITE_META_AND_INTRO',
     instruction: 'The content ranks but doesn\'t get clicks. Rewrite the Title Tag and the first paragraph to be a "Hook" or "Direct Answer". Create 3 title variations with brackets for CTR improvement.',
@@ -293,6 +443,75 @@ export const BUCKET_INSTRUCTIONS: Record<ActionBucket, {
       'Add new FAQ questions as search trends evolve',
     ],
   },
+  CANNIBALIZATION: {
+    priorityAction: 'CONSOLIDATE_URLS',
+    instruction: 'Several URLs split the same queries and swap places in the results. Keep this page as the one to rank, fold the competing pages\' unique content into it, and redirect or retarget them.',
+    tasks: [
+      'Merge unique sections from competing URLs into this page',
+      'Point internal links for the contested queries at this page',
+      'Update canonical tags and the sitemap after redirects',
+      'Retarget merged pages\' titles and H1s away from the contested queries',
+    ],
+  },
+  CONTENT_DECAY: {
+    priorityAction: 'REFRESH_DECAYING',
+    instruction: 'Clicks and impressions have been falling steadily. Refresh the page before it drops out of reach: update what has gone stale and close gaps competitors have filled.',
+    tasks: [
+      'Compare the page with the results now outranking it',
+      'Update outdated facts, figures, screenshots and examples',
+      'Cover subtopics the page is missing for its main queries',
+      'Refresh the title and meta description for current intent',
+      'Add internal links from recently published pages',
+    ],
+  },
+}
+
+/** Score component credited when learning from a bucket's outcomes */
+export const BUCKET_CREDIT_WEIGHTS: Record<BuiltInBucket, keyof WeightConfig> = {
+  CTR_FIX: 'ctrGap',
+  STRIKING_DISTANCE: 'position',
+  RELEVANCE_REBUILD: 'impressions',
+  LOCAL_BOOST: 'conversions',
+  MONITOR: 'freshness',
+  CANNIBALIZATION: 'position',
+  CONTENT_DECAY: 'freshness',
+}
+
+// ============================================================
+// Bucket Lookups (built-in or registered)
+// ============================================================
+
+function isBuiltInBucket(bucket: ActionBucket): bucket is BuiltInBucket {
+  return bucket in SUCCESS_CRITERIA
+}
+
+function getCustomBucket(bucket: ActionBucket, buckets?: BucketRegistry) {
+  const definition = buckets?.get(bucket)
+  if (!definition) throw new Error(`Unknown bucket "${bucket}"`)
+  return definition
+}
+
+/**
+ * Whether a bucket is built in or registered in `buckets`. Actions can
+ * outlive a custom bucket that has since been removed.
+ */
+export function isKnownBucket(bucket: ActionBucket, buckets?: BucketRegistry): boolean {
+  return isBuiltInBucket(bucket) || buckets?.get(bucket) !== undefined
+}
+
+/** Custom buckets are looked up in `buckets` */
+export function getSuccessCriteria(bucket: ActionBucket, buckets?: BucketRegistry): SuccessCriteria {
+  return isBuiltInBucket(bucket) ? SUCCESS_CRITERIA[bucket] : getCustomBucket(bucket, buckets).success
+}
+
+export function getBucketInstructions(bucket: ActionBucket, buckets?: BucketRegistry): BucketInstructions {
+  if (isBuiltInBucket(bucket)) return BUCKET_INSTRUCTIONS[bucket]
+  const { priorityAction, instruction, tasks } = getCustomBucket(bucket, buckets)
+  return { priorityAction, instruction, tasks }
+}
+
+export function getBucketCreditWeight(bucket: ActionBucket, buckets?: BucketRegistry): keyof WeightConfig {
+  return isBuiltInBucket(bucket) ? BUCKET_CREDIT_WEIGHTS[bucket] : getCustomBucket(bucket, buckets).creditWeight
 }
 
 // ============================================================
@@ -309,3 +528,11 @@ export const MODEL_DEFAULTS: Record<string, { model: string; provider: string }>
   gemini: { model: 'gemini-2.0-flash', provider: 'google' },
   grok:   { model: 'grok-3', provider: 'xai' },
 }
+
+/** List prices (USD per 1M tokens) for the default model of each built-in ID */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  claude: { inputPerMillion: 3.00, outputPerMillion: 15.00 },
+  openai: { inputPerMillion: 2.50, outputPerMillion: 10.00 },
+  gemini: { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  grok:   { inputPerMillion: 3.00, outputPerMillion: 15.00 },
+}
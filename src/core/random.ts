@@ -0,0 +1,75 @@
+// ============================================================
+// cr0n-engine — Seedable Randomness
+// Deterministic PRNG + distributions for sampling and mocks
+// ============================================================
+
+/**
+ * mulberry32 — small, fast, seedable PRNG returning [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * FNV-1a string hash, used to derive per-input seeds
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function sampleNormal(random: () => number = Math.random): number {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+/**
+ * Gamma(shape, 1) sample (Marsaglia-Tsang)
+ */
+export function sampleGamma(shape: number, random: () => number = Math.random): number {
+  if (shape < 1) {
+    // Boost: Gamma(a) = Gamma(a + 1) * U^(1/a)
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape)
+  }
+
+  const d = shape - 1 / 3
+  const c = 1 / Math.sqrt(9 * d)
+
+  while (true) {
+    let x: number
+    let v: number
+    do {
+      x = sampleNormal(random)
+      v = 1 + c * x
+    } while (v <= 0)
+
+    v = v * v * v
+    const u = random()
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v
+  }
+}
+
+/**
+ * Beta(alpha, beta) sample via two Gamma draws
+ */
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+  const x = sampleGamma(alpha, random)
+  const y = sampleGamma(beta, random)
+  return x + y > 0 ? x / (x + y) : 0.5
+}
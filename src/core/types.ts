@@ -3,6 +3,9 @@
 // Extracted from CRO9 + extended with federation types
 // ============================================================
 
+import type { StateStore } from '../state/types.js'
+import type { ModelAdapter } from '../federation/types.js'
+
 // ============================================================
 // Core Data Types
 // ============================================================
@@ -25,14 +28,63 @@ export interface PageData {
   freshnessScore: number
   lastContentUpdate?: string
   lastUpdated?: string
+  queries?: QueryData[]          // Every GSC query the page ranks for, by clicks
+  isBranded?: boolean            // Most impressions come from branded queries
+  brandedTraffic?: TrafficMetrics     // Branded queries only
+  nonBrandedTraffic?: TrafficMetrics  // Everything else, incl. anonymized queries
+  cannibalization?: PageCannibalization  // Set when other URLs compete for its queries
+  decay?: PageDecay              // Click / impression trend over snapshot history
+}
+
+/**
+ * Page metrics observed on one date. Works for daily GSC rows and for
+ * rolling-period exports alike — windows average whatever was recorded.
+ */
+export interface PageSnapshot {
+  siteId: string
+  url: string
+  date: string                   // YYYY-MM-DD
+  clicks: number
+  impressions: number
+  ctr: number
+  position: number
+  conversions: number
+  sessions?: number
+}
+
+/**
+ * Snapshots in a date range, averaged per snapshot.
+ * CTR is clicks / impressions; position is impression-weighted.
+ */
+export interface MetricWindow {
+  start: string                  // Inclusive, YYYY-MM-DD
+  end: string                    // Inclusive, YYYY-MM-DD
+  days: number                   // Snapshots found in the range
+  clicks: number
+  impressions: number
+  ctr: number
+  position: number
+  conversions: number
+}
+
+export interface QueryData {
+  query: string
+  clicks: number
+  impressions: number
+  ctr: number
+  position: number
+  branded?: boolean              // Set when brand terms are configured
 }
 
+export type TrafficMetrics = Pick<QueryData, 'clicks' | 'impressions' | 'ctr' | 'position'>
+
 export interface NormalizedScores {
   impressions: number
   position: number
   ctrGap: number
   conversions: number
-  freshness: number
+  freshness: number              // Content age, or performance decay when that is larger
+  decay?: number                 // Fitted decline when the page is decaying, else 0
 }
 
 export interface OpportunityScore {
@@ -45,19 +97,27 @@ export interface OpportunityScore {
 // Action Buckets
 // ============================================================
 
-export type ActionBucket =
+export type BuiltInBucket =
   | 'CTR_FIX'
   | 'STRIKING_DISTANCE'
   | 'RELEVANCE_REBUILD'
   | 'LOCAL_BOOST'
   | 'MONITOR'
+  | 'CANNIBALIZATION'
+  | 'CONTENT_DECAY'
+
+/** Built-in buckets, or any bucket registered on a BucketRegistry */
+export type ActionBucket = BuiltInBucket | (string & {})
 
-export const ACTION_BUCKETS: ActionBucket[] = [
+/** The built-in buckets; a registry's getBuckets() adds its custom ones */
+export const ACTION_BUCKETS: BuiltInBucket[] = [
   'CTR_FIX',
   'STRIKING_DISTANCE',
   'RELEVANCE_REBUILD',
   'LOCAL_BOOST',
   'MONITOR',
+  'CANNIBALIZATION',
+  'CONTENT_DECAY',
 ]
 
 export interface BucketCriteria {
@@ -81,6 +141,79 @@ export interface BucketCriteria {
   MONITOR: {
     maxPosition: number
   }
+  CANNIBALIZATION: {
+    minImpressions: number       // Contested-query impressions, across every competing URL
+  }
+  CONTENT_DECAY: {
+    maxPosition: number          // Still within reach; further down is RELEVANCE_REBUILD
+  }
+}
+
+export type BucketOperator = '>=' | '<=' | '>' | '<' | '=' | '!=' | 'in' | 'contains' | 'matches'
+
+export type BucketRuleValue = number | string | boolean | Array<number | string>
+
+/**
+ * One condition over a PageData field. `field` may be a dotted path
+ * ('nonBrandedTraffic.ctr') or a derived field: expectedCtr, ctrGap,
+ * localIntent, queryCount. `value` may name another field instead,
+ * optionally scaled: { field: 'expectedCtr', multiply: 0.95 }.
+ */
+export interface BucketCondition {
+  field: string
+  op: BucketOperator
+  value: BucketRuleValue | { field: string; multiply?: number }
+}
+
+export type BucketRule = BucketCondition | { all: BucketRule[] } | { any: BucketRule[] }
+
+export type SuccessMetric = 'ctr' | 'position' | 'impressions' | 'clicks' | 'conversions'
+
+export interface SuccessCriteria {
+  metric: SuccessMetric
+  improvement: number            // Relative (0.2 = +20%), or positions gained for 'position'
+  maintain?: boolean             // Position buckets: success unless significantly worse
+  description: string
+}
+
+export interface BucketInstructions {
+  priorityAction: string
+  instruction: string
+  tasks: string[]
+}
+
+/**
+ * A bucket defined as data. Loaded from JSON with loadBucketDefinitions()
+ * and registered on a BucketRegistry, usually the engine's.
+ */
+export interface BucketDefinition extends BucketInstructions {
+  name: string                   // UPPER_SNAKE_CASE, e.g. 'CONTENT_DECAY'
+  description?: string
+  when: BucketRule
+  success: SuccessCriteria
+  creditWeight: keyof WeightConfig  // Content weight the bucket's outcomes credit by default
+}
+
+/**
+ * One criterion a page was tested against, e.g.
+ * { criterion: 'impressions', value: 1200, operator: '>=', threshold: 500 }
+ */
+export interface BucketCriterionCheck {
+  criterion: string
+  value: number | string | boolean | null  // null when the page has no such field
+  operator: BucketOperator
+  threshold: BucketRuleValue
+  passed: boolean
+}
+
+export interface BucketMatch {
+  bucket: ActionBucket
+  checks: BucketCriterionCheck[]  // Every criterion the bucket requires, all passed
+}
+
+export interface BucketClassification {
+  bucket: ActionBucket           // First match in priority order; MONITOR when none match
+  matches: BucketMatch[]         // Every matching bucket, in priority order
 }
 
 // ============================================================
@@ -95,10 +228,117 @@ export interface WeightConfig {
   freshness: number
 }
 
+/**
+ * Content weights per action bucket. Buckets without a vector are
+ * scored with the global WeightConfig.
+ */
+export type BucketWeights = Partial<Record<ActionBucket, WeightConfig>>
+
 export interface LearningConfig {
   learningRate: number
   minWeight: number
   maxWeight: number
+  credit: 'gradient' | 'bucket'  // Spread over every component, or only the bucket's own
+  momentum: number               // 0-1, share of the previous step carried into the next
+  weightDecay: number            // 0-1, pull toward DEFAULT_WEIGHTS at the start of each cycle
+}
+
+/**
+ * Per-vector momentum carried between updates (and cycles)
+ */
+export type WeightVelocity = Partial<Record<ActionBucket | 'global', WeightConfig>>
+
+/**
+ * One credit-assignment step, in the order applied. Starting from
+ * `before`, `after` = clamp(before + velocity); normalization follows
+ * once per cycle.
+ */
+export interface WeightUpdate {
+  target: ActionBucket | 'global'  // Vector updated
+  url: string
+  bucket: ActionBucket
+  outcome: EvaluationOutcome
+  reward: number                 // +1 success, -0.5 failure
+  credit: NormalizedScores       // Share of the reward per component, sums to 1
+  gradient: WeightConfig         // learningRate × reward × credit
+  velocity: WeightConfig         // momentum × previous velocity + gradient
+  before: WeightConfig
+  after: WeightConfig
+}
+
+// ============================================================
+// Weight History & Guardrails
+// ============================================================
+
+export interface WeightBoundHit {
+  vector: 'content' | 'model'
+  target: ActionBucket | 'global'  // Content: global or bucket vector; model: the bucket
+  weight: string                 // WeightConfig key or model id
+  bound: 'min' | 'max'
+}
+
+export interface WeightAlert extends WeightBoundHit {
+  cycles: number                 // Consecutive versions that hit the bound
+  message: string
+}
+
+/**
+ * A step scaled back by the drift guard. Drift is the L1 distance
+ * between a vector before and after the cycle.
+ */
+export interface DriftCap {
+  vector: 'content' | 'model'
+  target: ActionBucket | 'global'
+  drift: number                  // As learned
+  applied: number                // After the cap
+}
+
+export interface DriftGuardConfig {
+  maxDrift: number               // Max L1 change per vector per cycle, default 0.1
+  boundAlertCycles: number       // Alert after this many consecutive bound hits, default 3
+}
+
+export interface WeightVersionEvaluation {
+  url: string
+  actionType: ActionBucket
+  outcome: EvaluationOutcome
+  successScore: number
+  modelUsed?: string
+}
+
+/**
+ * One entry in the weight ledger: the weights after a learning cycle
+ * (or a rollback), and what produced them
+ */
+export interface WeightVersion {
+  version: number                // 1, 2, 3, ...
+  createdAt: string
+  siteId?: string
+  source: 'initial' | 'cycle' | 'rollback'
+  restoredFrom?: number          // Rollbacks: the version restored
+  weights: WeightConfig
+  bucketWeights: BucketWeights
+  modelWeights: ModelWeights
+  modelPosteriors?: ModelPosteriors  // Absent from versions recorded before posteriors were
+  evaluations: WeightVersionEvaluation[]
+  capped: DriftCap[]
+  boundHits: WeightBoundHit[]
+  alerts: WeightAlert[]
+}
+
+export interface WeightChange {
+  vector: 'content' | 'model'
+  target: ActionBucket | 'global'
+  weight: string
+  from: number
+  to: number
+  delta: number
+}
+
+export interface WeightDiff {
+  from: number                   // Version numbers
+  to: number
+  changes: WeightChange[]        // Only weights that moved
 }
 
 export interface SavedWeights extends WeightConfig {
@@ -110,6 +350,7 @@ export interface SavedWeights extends WeightConfig {
 }
 
 export interface WeightAdjustment {
+  bucket?: ActionBucket          // Per-bucket vector; absent for the global one
   weight: keyof WeightConfig
   oldValue: number
   newValue: number
@@ -125,6 +366,7 @@ export interface ContentBrief {
   url: string
   targetKeyword: string
   bucket: ActionBucket
+  secondaryBuckets?: ActionBucket[]  // Combined briefs: other buckets' work folded in
 
   // Meta strategy
   titleRecommendations: string[]
@@ -143,12 +385,16 @@ export interface ContentBrief {
   schemaStack: string[]
 
   // Keyword engineering
+  secondaryKeywords?: string[]
   keywordDensityTarget: string
   mandatoryPlacements: string[]
 
   // Metrics snapshot
   metricsSnapshot?: Partial<PageData>
 
+  // CANNIBALIZATION: what to do with each competing URL
+  consolidation?: ConsolidationStep[]
+
   // Status
   status: 'draft' | 'approved' | 'executing' | 'completed' | 'cancelled'
 
@@ -161,6 +407,7 @@ export interface ContentBrief {
   generatedBy?: string          // Model ID that generated this brief
   contributingModels?: string[] // All models that influenced this brief
   consensusConfidence?: number  // 0-1 agreement score
+  usage?: TokenUsage            // Tokens spent generating this brief (single-model briefs)
 }
 
 // ============================================================
@@ -182,8 +429,9 @@ export interface SEOAction {
   originalPosition: number
   originalConversions: number
 
-  // Weights at time of action
+  // Weights and score components at time of action
   weightsSnapshot: WeightConfig
+  scoresSnapshot?: NormalizedScores  // SEOTask.breakdown; enables gradient credit
 
   // Brief
   briefId?: string
@@ -198,6 +446,7 @@ export interface SEOAction {
   resultDeltaTraffic?: number
 
   // Learning
+  outcome?: EvaluationOutcome
   learningApplied: boolean
   successScore?: number
   successCriteria?: string
@@ -222,7 +471,12 @@ export interface SEOTask {
   score: number
   bucket: ActionBucket
   metrics: PageData
+  breakdown: NormalizedScores    // Copy to SEOAction.scoresSnapshot when actioned
   brief: ContentBrief
+  matches?: BucketMatch[]        // Every bucket the page matched and why
+  secondaryBuckets?: ActionBucket[]  // Combined tasks: matched buckets after `bucket`
+  forecast?: UpliftForecast      // Expected incremental clicks, conversions and revenue
+  effort?: TaskEffort            // Estimated writer hours
 }
 
 export interface LearningLog {
@@ -236,12 +490,14 @@ export interface LearningLog {
     deltaMetric: number
     metricType: string
   }
+  annotations?: Annotation[]     // Events overlapping the action's evaluation period
 }
 
 export interface DailyPlan {
   date: string
   siteId: string
   activeWeights: WeightConfig
+  activeBucketWeights?: BucketWeights
   tasks: SEOTask[]
   learningLog: LearningLog[]
   stats: {
@@ -249,6 +505,98 @@ export interface DailyPlan {
     pagesWithOpportunities: number
     bucketDistribution: Record<ActionBucket, number>
   }
+  capacity?: CapacitySummary     // Set when tasks were chosen to fit team hours
+}
+
+// ============================================================
+// Uplift Forecasting
+// ============================================================
+
+/** How tasks are ordered: by weighted score, or by an expected uplift */
+export type TaskRanking = 'score' | 'clicks' | 'conversions' | 'revenue'
+
+export interface ForecastConfig {
+  confidence: number             // Interval coverage, e.g. 0.8 = 10th-90th percentile
+  minSamples: number             // Past evaluations before a bucket is calibrated on its own
+  conversionValue?: number       // Revenue per conversion; no revenue forecast without it
+  prior: ForecastRange           // Realization assumed before any calibration
+  bounds: Pick<ForecastRange, 'low' | 'high'>  // Each observed realization is clipped into this
+}
+
+/** Expected value with a confidence interval */
+export interface ForecastRange {
+  expected: number
+  low: number
+  high: number
+}
+
+/**
+ * Share of the forecast past actions actually delivered, from
+ * evaluations on the same bucket, all buckets pooled, or the prior
+ */
+export interface ForecastCalibration {
+  source: 'bucket' | 'pooled' | 'prior'
+  samples: number
+  realization: ForecastRange
+}
+
+/**
+ * Incremental traffic over the same period as the page's metrics.
+ * basis: how the full-success gain was derived
+ * - ctr-gap:     CTR rises to the curve's expectation at the current position
+ * - position:    the page moves up the CTR curve by the bucket's target
+ * - impressions / clicks / conversions: the metric grows by the target
+ * - none:        nothing to gain (maintain buckets)
+ */
+export interface UpliftForecast {
+  basis: 'ctr-gap' | 'position' | 'impressions' | 'clicks' | 'conversions' | 'none'
+  potentialClicks: number        // Gain if the action fully succeeds
+  clicks: ForecastRange          // Potential scaled by realization
+  conversionRate: number         // GA4 conversions per session (per click without sessions)
+  conversions: ForecastRange
+  revenue: ForecastRange | null  // Needs conversionValue
+  calibration: ForecastCalibration
+}
+
+// ============================================================
+// Capacity Planning
+// ============================================================
+
+export interface BucketEffort {
+  baseHours: number              // Fixed work: research, meta, schema, redirects, QA
+  rewriteShare: number           // Share of the brief's targetWordCount written or rewritten
+}
+
+export interface EffortConfig {
+  wordsPerHour: number           // Writing pace
+  buckets: Partial<Record<ActionBucket, BucketEffort>>
+  default: BucketEffort          // Buckets without an entry, e.g. custom ones
+}
+
+export interface TaskEffort {
+  hours: number
+  baseHours: number
+  words: number                  // Words to write or rewrite
+}
+
+/**
+ * Writer hours available per plan. Tasks are chosen to maximize the
+ * summed `value` within `hours`; bucket limits count primary buckets.
+ */
+export interface CapacityConfig {
+  hours: number
+  minPerBucket?: Partial<Record<ActionBucket, number>>
+  maxPerBucket?: Partial<Record<ActionBucket, number>>
+  value?: TaskRanking            // Default: the analyzer's rankBy
+}
+
+export interface CapacitySummary {
+  hours: number                  // Available
+  plannedHours: number           // Used by the chosen tasks
+  value: TaskRanking
+  totalValue: number             // Summed value of the chosen tasks
+  deferred: number               // Candidate tasks left out
+  unmetMinimums: ActionBucket[]  // Buckets short of their minimum (too few tasks or hours)
 }
 
 // ============================================================
@@ -270,6 +618,8 @@ export interface AnalysisRun {
   relevanceRebuildCount: number
   localBoostCount: number
   monitorCount: number
+  cannibalizationCount: number
+  contentDecayCount: number
 
   learningCycleRan: boolean
   actionsEvaluated: number
@@ -306,26 +656,69 @@ export interface CTRCurve {
   position21Plus: number
   industry: string
   dataSource: 'industry_average' | 'custom' | 'calculated'
+  impressions?: number           // Calculated curves: impressions the fit rests on
+  segmentBy?: CTRSegment
+  segments?: Record<string, CTRCurve>  // Keyed by intent, or 'branded'
+}
+
+export type CTRCurvePosition = Exclude<
+  keyof CTRCurve,
+  'industry' | 'dataSource' | 'impressions' | 'segmentBy' | 'segments'
+>
+
+export type CTRSegment = 'none' | 'intent' | 'brand'
+
+export interface CTRCurveFitOptions {
+  minImpressions: number         // Rows with fewer impressions are skipped
+  priorStrength: number          // Pseudo-impressions of the prior curve per position
+  monotonic: boolean             // Expected CTR never rises with position
+  useQueries: boolean            // Fit on page.queries where present, else page totals
+  segmentBy: CTRSegment
+  minSegmentImpressions: number  // Smaller segments fall back to the site curve
+  brandTerms: Array<string | RegExp>  // Case-insensitive substrings, or patterns
+  branded: 'include' | 'exclude' | 'only'
 }
 
 // ============================================================
 // Federation — Model Types
 // ============================================================
 
-export type ModelId = 'claude' | 'openai' | 'gemini' | 'grok'
+export type BuiltInModelId = 'claude' | 'openai' | 'gemini' | 'grok'
+
+/** Built-in IDs autocomplete; any string registered via ModelRegistry is valid */
+export type ModelId = BuiltInModelId | (string & {})
 
-export const MODEL_IDS: ModelId[] = ['claude', 'openai', 'gemini', 'grok']
+export const MODEL_IDS: BuiltInModelId[] = ['claude', 'openai', 'gemini', 'grok']
 
 export type ModelProvider = 'anthropic' | 'openai' | 'google' | 'xai'
 
 export interface ModelConfig {
-  apiKey: string
+  apiKey?: string    // Required by hosted providers; optional for local servers
   model?: string     // Override default model name
-  baseURL?: string   // For custom endpoints (Grok)
+  baseURL?: string   // For custom endpoints (Grok, OpenAI-compatible servers)
+  headers?: Record<string, string>  // Extra request headers (OpenAI-compatible)
+  adapter?: string   // Factory to build this model with, defaults to its ID
 }
 
 /** Per-bucket model weight distribution. Must sum to 1.0 per bucket. */
-export type ModelWeights = Record<ActionBucket, Record<ModelId, number>>
+export type ModelWeights = Record<ActionBucket, Record<string, number>>
+
+/** Beta posterior over a model's success rate: alpha = successes + 1, beta = failures + 1 */
+export interface BetaPosterior {
+  alpha: number
+  beta: number
+}
+
+/** Per-bucket success posteriors per model, stored alongside ModelWeights */
+export type ModelPosteriors = Record<ActionBucket, Record<string, BetaPosterior>>
+
+export type RoutingStrategy = 'all' | 'thompson'
+
+export interface RoutingConfig {
+  strategy?: RoutingStrategy     // Default 'all'
+  maxModelsPerTask?: number      // Budget per task; default 2 for 'thompson', unlimited for 'all'
+  seed?: number                  // Seed Thompson draws for reproducible routing
+}
 
 export interface ModelStats {
   modelId: ModelId
@@ -337,19 +730,116 @@ export interface ModelStats {
   weightsByBucket: Record<ActionBucket, number>
 }
 
+// ============================================================
+// Cost & Token Accounting
+// ============================================================
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+/** USD per one million tokens */
+export interface ModelPricing {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+export interface BudgetConfig {
+  maxCostUsd?: number            // Max spend per cycle
+  maxTokens?: number             // Max tokens per cycle
+  reserveTokens?: number         // Held per call until a model's largest call is known, default 4000
+}
+
+export interface CostEntry {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  costUsd: number
+}
+
+export interface CostReport {
+  total: CostEntry
+  byModel: Record<string, CostEntry>
+  byBucket: Record<ActionBucket, CostEntry>
+  budget: BudgetConfig | null
+  budgetExhausted: boolean
+  fallbackTasks: number          // Tasks that kept the local brief because the budget ran out
+}
+
+// ============================================================
+// Federation Scheduling & Failures
+// ============================================================
+
+export interface SchedulerConfig {
+  concurrency?: number                         // Tasks federated in parallel, default 4
+  providerConcurrency?: Record<string, number> // Per-provider in-flight limit, keyed by adapter.provider
+  defaultProviderConcurrency?: number          // Default 2
+  timeoutMs?: number                           // Per request, default 60000
+  maxRetries?: number                          // Retries on 429/5xx/timeouts, default 3
+  baseDelayMs?: number                         // First backoff delay, default 1000
+  maxDelayMs?: number                          // Backoff cap, default 30000
+}
+
+export interface ModelFailure {
+  modelId: ModelId
+  error: string
+  attempts: number
+  statusCode?: number
+  timedOut: boolean
+  budgetExhausted?: boolean      // Not attempted: the call didn't fit in the remaining budget
+}
+
+export interface TaskFailure {
+  url: string
+  bucket: ActionBucket
+  fallback: boolean              // True when every model failed and the local brief was kept
+  error?: string                 // Task-level error (routing, all models failed)
+  models: ModelFailure[]
+}
+
 // ============================================================
 // Engine Configuration
 // ============================================================
 
 export interface EngineConfig {
   models: Partial<Record<ModelId, ModelConfig>>
+  adapters?: ModelAdapter[]      // Prebuilt adapters (mocks, replays), registered after `models`
   weights?: Partial<WeightConfig>
+  bucketWeights?: BucketWeights  // Per-bucket overrides of `weights`
+  ctrCurve?: CTRCurve            // Expected CTR by position, default DEFAULT_CTR_CURVE
+  refitCTRCurve?: boolean | Partial<CTRCurveFitOptions>  // Refit `ctrCurve` from each cycle's pages
+  brand?: Partial<BrandConfig>   // Branded query terms and how to treat their traffic
+  cannibalization?: Partial<CannibalizationConfig> | false  // Detection on input pages; false to skip
+  decay?: Partial<DecayConfig> | false  // Trend detection over snapshot history; false to skip
+  learning?: Partial<LearningConfig>
   modelWeights?: Partial<ModelWeights>
+  modelPosteriors?: Partial<ModelPosteriors>
+  routing?: RoutingConfig
+  pricing?: Partial<Record<ModelId, ModelPricing>>  // Overrides DEFAULT_MODEL_PRICING
+  budget?: BudgetConfig
+  scheduler?: SchedulerConfig
   maxTasksPerRun?: number
   includeMonitorBucket?: boolean
+  bucketPriority?: ActionBucket[]  // Classification order, default BUCKET_PRIORITY
+  buckets?: BucketDefinition[]   // Custom buckets, in this engine's own registry
+  combineBuckets?: boolean       // One task per page covering every matched bucket
+  forecast?: Partial<ForecastConfig>  // Uplift forecasts, calibrated from past evaluations
+  rankBy?: TaskRanking           // Default 'score'
+  effort?: Partial<EffortConfig> // Writer hours per task
+  capacity?: CapacityConfig      // Fit the plan to team hours instead of maxTasksPerRun
   consensusThreshold?: number    // 0-1, default 0.7
   evaluationDelayDays?: number
   maxActionAgeDays?: number
+  evaluationWindowDays?: number  // Before/after window length, default 28
+  significance?: Partial<SignificanceConfig>
+  controlCohort?: Partial<ControlCohortConfig> | false  // false disables the adjustment
+  driftGuard?: Partial<DriftGuardConfig> | false  // false disables the cap and alerts
+  annotations?: Annotation[]     // See loadAnnotations()
+  annotationPolicy?: AnnotationPolicy  // Default 'exclude'
+  store?: StateStore             // Loads prior state and commits each cycle
 }
 
 // ============================================================
@@ -360,25 +850,37 @@ export interface CycleInput {
   pages: PageData[]
   completedActions?: SEOAction[]
   siteId?: string
+  snapshots?: PageSnapshot[]     // Backfilled history, e.g. daily GSC rows
+  date?: string                  // Date `pages` were observed, default today
 }
 
 export interface CycleResult {
   plan: DailyPlan
   evaluations: BatchEvaluationResult | null
   weights: WeightConfig
+  bucketWeights: BucketWeights
+  ctrCurve: CTRCurve             // Curve the plan was scored with
+  weightUpdates: WeightUpdate[]  // Content weight credit assignment, in order
+  weightVersion: WeightVersion | null  // Ledger entry, when learning ran
   modelWeights: ModelWeights
+  modelPosteriors: ModelPosteriors
   modelStats: ModelStats[]
   learningLog: LearningLog[]
+  run: AnalysisRun
+  cost: CostReport
+  failures: TaskFailure[]
 }
 
 export interface BatchEvaluationResult {
   evaluated: EvaluationResult[]
   skipped: SEOAction[]
+  excluded: SEOAction[]          // Overlapped a major annotation, or its bucket is gone; never learned from
   stats: {
     total: number
     successful: number
     failed: number
-    successRate: number
+    inconclusive: number
+    successRate: number            // successful / (successful + failed)
   }
   learningLogs: LearningLog[]
 }
@@ -392,9 +894,81 @@ export interface EvaluationResult {
   deltaPosition: number
   deltaCtr: number
   deltaImpressions: number
+  outcome: EvaluationOutcome
+  significance: SignificanceResult
+  uplift: number                 // Change on the bucket's metric, net of the control cohort
+  control?: ControlComparison
+  basis: 'window' | 'point'      // Windowed averages, or original vs. current values
+  windows?: { before: MetricWindow; after: MetricWindow }
+  annotations?: Annotation[]     // Minor (or, under 'flag', any) overlapping events
   learningLog: LearningLog
 }
 
+/**
+ * Difference-in-differences against un-actioned look-alike pages.
+ * Changes are relative for CTR / impressions / clicks, in positions otherwise.
+ */
+export interface ControlComparison {
+  urls: string[]
+  before: MetricWindow           // Pooled cohort windows
+  after: MetricWindow
+  treatedChange: number          // Raw change on the actioned page
+  controlChange: number          // Same metric across the cohort
+  uplift: number                 // Treated change vs. the cohort-adjusted baseline
+}
+
+export interface ControlCohortConfig {
+  minPages: number               // Fewer matches → no adjustment, default 3
+  maxPages: number               // Closest matches kept, default 20
+  positionTolerance: number      // ± positions from the actioned page, default 3
+  impressionRatio: number        // Impressions within this factor, default 3
+}
+
+/**
+ * `inconclusive`: too little data, or a gain that could be noise.
+ * Learning skips these; the action is re-evaluated next cycle.
+ */
+export type EvaluationOutcome = 'success' | 'failure' | 'inconclusive'
+
+export interface SignificanceResult {
+  test: 'proportion' | 'poisson' | 't-test' | 'threshold'
+  pValue: number | null          // null for plain threshold checks
+  sampleSize: number             // Impressions, events or days the test rests on
+  reason?: string                // Why the outcome is inconclusive
+}
+
+export interface SignificanceConfig {
+  level: number                  // One-sided alpha, default 0.05
+  minImpressions: number         // Per side, for CTR and position checks
+  minClicks: number              // Combined before + after, for click tests
+}
+
+// ============================================================
+// Annotations
+// ============================================================
+
+export type AnnotationType = 'algorithm_update' | 'migration' | 'seasonal' | 'other'
+
+/**
+ * A dated event that moves rankings independently of any action —
+ * a core update, a site migration, a holiday season
+ */
+export interface Annotation {
+  name: string
+  type: AnnotationType
+  date: string                   // First day, YYYY-MM-DD
+  endDate?: string               // Last day (inclusive), default `date`
+  impact: 'major' | 'minor'      // Major events can exclude actions from learning
+  siteId?: string                // Omit to apply to every site
+  description?: string
+}
+
+/**
+ * `exclude`: actions whose evaluation period overlaps a major event are
+ * not learned from. `flag`: they are evaluated as usual, with the event noted.
+ */
+export type AnnotationPolicy = 'exclude' | 'flag'
+
 // ============================================================
 // Data Aggregator Types (standalone, no CRO9 deps)
 // ============================================================
@@ -416,6 +990,109 @@ export interface GA4PageData {
   avgSessionDuration: number
 }
 
+export interface AggregatorOptions {
+  brandTerms?: Array<string | RegExp>  // Tags queries and pages as branded
+  cannibalization?: Partial<CannibalizationConfig> | false  // Tags competing URLs; false to skip
+  date?: Date | string           // Day the exports cover, for freshness; default today
+}
+
+// ============================================================
+// Content Decay
+// ============================================================
+
+export interface DecayConfig {
+  lookbackDays: number           // Trend window, ending at the latest snapshot
+  minDays: number                // Snapshots needed in the window to fit a trend
+  minDecline: number             // Fitted loss over the window, e.g. 0.2 = -20%
+  level: number                  // One-sided significance level for the slope
+}
+
+/** Log-linear trend of one metric: ln(1 + value) against days */
+export interface DecayTrend {
+  slope: number                  // Per day, log scale
+  change: number                 // Fitted relative change over the window
+  pValue: number                 // One-sided: a decline this steep by chance
+}
+
+export interface PageDecay {
+  decaying: boolean              // A significant decline of at least minDecline
+  score: number                  // 0-1: the larger significant decline, 0 when not decaying
+  start: string                  // First snapshot in the window
+  end: string                    // Last snapshot in the window
+  days: number                   // Snapshots fitted
+  clicks: DecayTrend
+  impressions: DecayTrend
+}
+
+// ============================================================
+// Cannibalization
+// ============================================================
+
+export interface CannibalizationConfig {
+  minQueryImpressions: number    // A query needs this many impressions across its URLs
+  minShare: number               // Each competing URL's share of the query's impressions
+  maxPositionGap: number         // URLs further apart than this aren't swapping places
+  redirectShare: number          // Contested share of a losing URL's impressions to redirect it
+}
+
+/**
+ * keep:     the URL the query should consolidate on
+ * merge:    has traffic of its own — fold the overlap into the kept URL
+ *           and retarget it away from the query
+ * redirect: lives mostly on contested queries — 301 it to the kept URL
+ */
+export type CannibalizationRole = 'keep' | 'merge' | 'redirect'
+
+export interface CannibalizingUrl extends TrafficMetrics {
+  url: string
+  share: number                  // Of the query's impressions
+}
+
+/** One query that several URLs split between them */
+export interface CannibalizedQuery extends TrafficMetrics {
+  query: string
+  keepUrl: string                // Most clicks on the query, then most impressions
+  positionGap: number            // Between the best and worst competing URL
+  urls: CannibalizingUrl[]       // By clicks, kept URL first
+}
+
+export interface ConsolidationStep {
+  url: string
+  role: CannibalizationRole
+  queries: string[]              // Contested queries the two URLs share
+}
+
+/**
+ * A page's part in cannibalization. Its role comes from its largest
+ * contested query; `competitors` are the other URLs involved, each with
+ * its own role.
+ */
+export interface PageCannibalization {
+  role: CannibalizationRole
+  keepUrl: string
+  impressions: number            // Contested-query impressions, across every competing URL
+  queries: string[]              // Contested queries, largest first
+  competitors: ConsolidationStep[]
+}
+
+// ============================================================
+// Branded Traffic
+// ============================================================
+
+/**
+ * How the scorer, bucketer and CTR curve fitting treat branded queries:
+ * - include:  like any other traffic
+ * - exclude:  pages are judged on their non-branded traffic alone
+ * - separate: branded and non-branded impressions are held to their own
+ *             expected CTR curves
+ */
+export type BrandedTrafficMode = 'include' | 'exclude' | 'separate'
+
+export interface BrandConfig {
+  terms: Array<string | RegExp>  // Case-insensitive substrings, or patterns
+  mode: BrandedTrafficMode
+}
+
 // ============================================================
 // Content Writer Bridge Types
 // ============================================================
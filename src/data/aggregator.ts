@@ -1,23 +1,144 @@
 // ============================================================
 // cr0n-engine — Data Aggregator
 // Merges GSC and GA4 data into unified PageData format
+// Tags branded queries when brand terms are configured,
+// and URLs that compete for the same queries
 // Standalone — no CRO9 dependencies
 // ============================================================
 
-import type { PageData, GSCPageData, GA4PageData } from '../core/types.js'
+import type {
+  PageData,
+  QueryData,
+  GSCPageData,
+  GA4PageData,
+  TrafficMetrics,
+  AggregatorOptions,
+} from '../core/types.js'
 import { LOCAL_INDICATORS } from '../core/constants.js'
+import { tagCannibalization } from './cannibalization.js'
+import { daysBetween, toDateKey } from './history.js'
+
+interface RowTotals {
+  clicks: number
+  impressions: number
+  weightedPosition: number   // Σ position × impressions
+  positionSum: number        // Unweighted, for rows with no impressions
+  ctrSum: number
+  rows: number
+}
+
+function emptyTotals(): RowTotals {
+  return { clicks: 0, impressions: 0, weightedPosition: 0, positionSum: 0, ctrSum: 0, rows: 0 }
+}
+
+function addRow(totals: RowTotals, row: TrafficMetrics): void {
+  totals.clicks += row.clicks
+  totals.impressions += row.impressions
+  totals.weightedPosition += row.position * row.impressions
+  totals.positionSum += row.position
+  totals.ctrSum += row.ctr
+  totals.rows++
+}
+
+/**
+ * Impression-weighted position and CTR; plain means when nothing was shown
+ */
+function summarize(totals: RowTotals): TrafficMetrics {
+  if (totals.impressions > 0) {
+    return {
+      clicks: totals.clicks,
+      impressions: totals.impressions,
+      ctr: totals.clicks / totals.impressions,
+      position: totals.weightedPosition / totals.impressions,
+    }
+  }
+  return {
+    clicks: totals.clicks,
+    impressions: 0,
+    ctr: totals.rows > 0 ? totals.ctrSum / totals.rows : 0,
+    position: totals.rows > 0 ? totals.positionSum / totals.rows : 0,
+  }
+}
+
+/**
+ * True when the query contains a brand term (case-insensitive) or
+ * matches a brand pattern
+ */
+export function isBrandedQuery(query: string, brandTerms: Array<string | RegExp>): boolean {
+  const text = query.toLowerCase()
+  return brandTerms.some(term => {
+    if (typeof term === 'string') return term.length > 0 && text.includes(term.toLowerCase())
+    term.lastIndex = 0
+    return term.test(query)
+  })
+}
+
+/**
+ * Tag each query as branded or not and split the page's traffic. The
+ * non-branded side is the page totals minus branded queries, so
+ * anonymized queries count as non-branded. Pages without queries are
+ * returned as-is.
+ */
+export function tagBrandedTraffic(page: PageData, brandTerms: Array<string | RegExp>): PageData {
+  if (!page.queries?.length || brandTerms.length === 0) return page
+
+  const branded = emptyTotals()
+  const queries = page.queries.map(query => {
+    const isBranded = isBrandedQuery(query.query, brandTerms)
+    if (isBranded) addRow(branded, query)
+    return { ...query, branded: isBranded }
+  })
+
+  const clicks = Math.max(0, page.clicks - branded.clicks)
+  const impressions = Math.max(0, page.impressions - branded.impressions)
+  const nonBrandedTraffic: TrafficMetrics = {
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+    position: impressions > 0
+      ? Math.max(1, (page.position * page.impressions - branded.weightedPosition) / impressions)
+      : page.position,
+  }
+  const brandedTraffic = summarize(branded)
+
+  return {
+    ...page,
+    queries,
+    isBranded: brandedTraffic.impressions > nonBrandedTraffic.impressions,
+    brandedTraffic,
+    nonBrandedTraffic,
+  }
+}
 
 export class DataAggregator {
-  private normalizeUrl(url: string): string {
-    try {
-      if (url.startsWith('http')) {
+  private brandTerms: Array<string | RegExp>
+  private cannibalization: AggregatorOptions['cannibalization']
+  private date?: Date | string
+
+  constructor(options: AggregatorOptions = {}) {
+    this.brandTerms = options.brandTerms ?? []
+    this.cannibalization = options.cannibalization
+    this.date = options.date
+  }
+
+  /**
+   * Grouping key for a URL: host and path for absolute URLs, the path
+   * alone otherwise. Only the host is lowercased — servers may treat
+   * /Page and /page as different pages. Trailing slashes are dropped.
+   */
+  private parseUrl(url: string): { key: string; path: string } {
+    const trim = (path: string) => path.replace(/\/$/, '') || '/'
+    if (url.startsWith('http')) {
+      try {
         const urlObj = new URL(url)
-        return urlObj.pathname.toLowerCase().replace(/\/$/, '') || '/'
+        const path = trim(urlObj.pathname)
+        return { key: `${urlObj.hostname.toLowerCase()}${path}`, path }
+      } catch {
+        // Not a URL after all; keyed as a path below
       }
-      return url.toLowerCase().replace(/\/$/, '') || '/'
-    } catch {
-      return url.toLowerCase().replace(/\/$/, '') || '/'
     }
+    const path = trim(url)
+    return { key: path, path }
   }
 
   private detectIntent(url: string, keyword: string): PageData['intent'] {
@@ -77,65 +198,143 @@ export class DataAggregator {
     return [...new Set(keywords)]
   }
 
-  private calculateFreshnessScore(lastUpdate?: string): number {
-    if (!lastUpdate) return 0.5
+  private calculateFreshnessScore(date: string, lastUpdate?: string): number {
+    if (!lastUpdate || Number.isNaN(Date.parse(lastUpdate))) return 0.5
 
-    const updateDate = new Date(lastUpdate)
-    const now = new Date()
-    const daysSinceUpdate = Math.floor(
-      (now.getTime() - updateDate.getTime()) / (1000 * 60 * 60 * 24)
-    )
+    const daysSinceUpdate = daysBetween(lastUpdate, date)
 
     return Math.min(daysSinceUpdate / 365, 1)
   }
 
+  /**
+   * Merge GSC and GA4 data into one PageData per URL.
+   * GSC rows are grouped by host and path (one row per page × query).
+   * Rows with an empty query are page totals: when a page has them they
+   * give its metrics and its query rows only fill `queries`; otherwise
+   * its query rows are summed.
+   * Freshness is measured to `date`, the day the exports cover
+   * (default the `date` option, else today).
+   */
   aggregate(
     gscData: GSCPageData[],
     ga4Data: GA4PageData[],
-    lastUpdates?: Map<string, string>
+    lastUpdates?: Map<string, string>,
+    date: Date | string = this.date ?? new Date()
   ): PageData[] {
+    const day = toDateKey(date)
+    // GA4 page locations key by host and path, bare page paths by path
     const ga4Map = new Map<string, GA4PageData>()
     for (const ga4 of ga4Data) {
-      const normalizedPath = this.normalizeUrl(ga4.pagePath)
-      ga4Map.set(normalizedPath, ga4)
+      ga4Map.set(this.parseUrl(ga4.pagePath).key, ga4)
+    }
+
+    const groups = new Map<string, { path: string; rows: GSCPageData[] }>()
+    const hostsByPath = new Map<string, number>()
+    for (const gsc of gscData) {
+      const { key, path } = this.parseUrl(gsc.url)
+      const group = groups.get(key)
+      if (group) {
+        group.rows.push(gsc)
+      } else {
+        groups.set(key, { path, rows: [gsc] })
+        hostsByPath.set(path, (hostsByPath.get(path) ?? 0) + 1)
+      }
     }
 
     const pages: PageData[] = []
 
-    for (const gsc of gscData) {
-      const normalizedPath = this.normalizeUrl(gsc.url)
-      const ga4 = ga4Map.get(normalizedPath)
-      const combined = `${gsc.url} ${gsc.query}`
-      const lastUpdate = lastUpdates?.get(gsc.url)
+    for (const [key, { path, rows }] of groups) {
+      const url = this.pickUrl(rows)
+      // A bare GA4 path only joins when one host has it
+      const ga4 = ga4Map.get(key) ?? (hostsByPath.get(path) === 1 ? ga4Map.get(path) : undefined)
+
+      // Query rows are a breakdown of the page rows, not extra traffic
+      const pageRows = rows.filter(row => !row.query?.trim())
+      const totals = emptyTotals()
+      for (const row of pageRows.length > 0 ? pageRows : rows) addRow(totals, row)
+      const metrics = summarize(totals)
+
+      const queries = this.groupQueries(rows)
+      const topQuery = queries[0]?.query ?? ''
+      const combined = `${url} ${topQuery}`
+      const lastUpdate = lastUpdates?.get(url)
+        ?? rows.map(r => lastUpdates?.get(r.url)).find(Boolean)
 
       const pageData: PageData = {
-        url: gsc.url,
-        primaryKeyword: gsc.query || this.extractKeywordFromUrl(gsc.url),
-        clicks: gsc.clicks,
-        impressions: gsc.impressions,
-        ctr: gsc.ctr,
-        position: gsc.position,
+        url,
+        primaryKeyword: topQuery || this.extractKeywordFromUrl(url),
+        clicks: metrics.clicks,
+        impressions: metrics.impressions,
+        ctr: metrics.ctr,
+        position: metrics.position,
         sessions: ga4?.sessions ?? 0,
         conversions: ga4?.conversions ?? 0,
         bounceRate: ga4?.bounceRate ?? 0,
         avgSessionDuration: ga4?.avgSessionDuration ?? 0,
-        intent: this.detectIntent(gsc.url, gsc.query),
+        intent: this.detectIntent(url, topQuery),
         isLocalPage: this.hasLocalIntent(combined),
         localKeywords: this.extractLocalKeywords(combined),
-        freshnessScore: this.calculateFreshnessScore(lastUpdate),
+        freshnessScore: this.calculateFreshnessScore(day, lastUpdate),
         lastContentUpdate: lastUpdate,
-        lastUpdated: new Date().toISOString(),
+        lastUpdated: new Date(date).toISOString(),
+        queries,
+      }
+
+      pages.push(tagBrandedTraffic(pageData, this.brandTerms))
+    }
+
+    return this.cannibalization === false ? pages : tagCannibalization(pages, this.cannibalization)
+  }
+
+  /**
+   * Sum rows per query (case-insensitive), ordered by clicks, then impressions
+   */
+  private groupQueries(rows: GSCPageData[]): QueryData[] {
+    const byQuery = new Map<string, { query: string; totals: RowTotals }>()
+
+    for (const row of rows) {
+      const query = row.query?.trim()
+      if (!query) continue
+
+      const key = query.toLowerCase()
+      let entry = byQuery.get(key)
+      if (!entry) {
+        entry = { query, totals: emptyTotals() }
+        byQuery.set(key, entry)
       }
+      addRow(entry.totals, row)
+    }
 
-      pages.push(pageData)
+    return Array.from(byQuery.values())
+      .map(({ query, totals }) => ({ query, ...summarize(totals) }))
+      .sort((a, b) =>
+        b.clicks - a.clicks ||
+        b.impressions - a.impressions ||
+        a.position - b.position
+      )
+  }
+
+  /**
+   * Rows share a key when they have the same host (any casing) and the
+   * same case-sensitive path; the scheme, query string and a trailing
+   * slash may differ. Report the variant with the most impressions.
+   */
+  private pickUrl(rows: GSCPageData[]): string {
+    const impressionsByUrl = new Map<string, number>()
+    for (const row of rows) {
+      impressionsByUrl.set(row.url, (impressionsByUrl.get(row.url) ?? 0) + row.impressions)
     }
 
-    return pages
+    let best = rows[0].url
+    for (const [url, impressions] of impressionsByUrl) {
+      if (impressions > impressionsByUrl.get(best)!) best = url
+    }
+    return best
   }
 
   private extractKeywordFromUrl(url: string): string {
     try {
-      const path = this.normalizeUrl(url)
+      const path = this.parseUrl(url).path.toLowerCase()
       const segments = path.replace(/^\/|\/$/g, '').split(/[-_/]/)
       const keyword = segments.filter(s => s.length > 0).pop() || ''
       return keyword.replace(/-/g, ' ')
@@ -145,15 +344,16 @@ export class DataAggregator {
   }
 }
 
-export function createAggregator(): DataAggregator {
-  return new DataAggregator()
+export function createAggregator(options?: AggregatorOptions): DataAggregator {
+  return new DataAggregator(options)
 }
 
 export function aggregateData(
   gscData: GSCPageData[],
   ga4Data: GA4PageData[],
-  lastUpdates?: Map<string, string>
+  lastUpdates?: Map<string, string>,
+  options?: AggregatorOptions
 ): PageData[] {
-  const aggregator = new DataAggregator()
+  const aggregator = new DataAggregator(options)
   return aggregator.aggregate(gscData, ga4Data, lastUpdates)
 }
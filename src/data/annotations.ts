@@ -0,0 +1,114 @@
+// ============================================================
+// cr0n-engine — Annotations
+// Dated events (core updates, migrations, seasons) that the
+// evaluator checks action windows against
+// ============================================================
+
+import { readFile } from 'node:fs/promises'
+import type { Annotation, AnnotationType } from '../core/types.js'
+import { toDateKey } from './history.js'
+
+const ANNOTATION_TYPES: AnnotationType[] = ['algorithm_update', 'migration', 'seasonal', 'other']
+
+/**
+ * Validate annotations from parsed JSON: an array, or `{ annotations: [...] }`.
+ * `impact` defaults to 'major' and `type` to 'other'.
+ */
+export function parseAnnotations(data: unknown): Annotation[] {
+  const list = Array.isArray(data)
+    ? data
+    : (data as { annotations?: unknown } | null)?.annotations
+
+  if (!Array.isArray(list)) {
+    throw new Error('Annotations must be an array or an object with an "annotations" array')
+  }
+
+  return list.map((entry, i) => {
+    const raw = entry as Record<string, unknown> | null
+    if (!raw || typeof raw !== 'object') {
+      throw new Error(`Annotation ${i} is not an object`)
+    }
+    if (typeof raw.name !== 'string' || !raw.name) {
+      throw new Error(`Annotation ${i} is missing a name`)
+    }
+
+    const type = (raw.type ?? 'other') as AnnotationType
+    if (!ANNOTATION_TYPES.includes(type)) {
+      throw new Error(`Annotation "${raw.name}" has unknown type "${raw.type}"`)
+    }
+
+    const impact = raw.impact ?? 'major'
+    if (impact !== 'major' && impact !== 'minor') {
+      throw new Error(`Annotation "${raw.name}" has unknown impact "${raw.impact}"`)
+    }
+
+    const date = toAnnotationDate(raw.date, raw.name, 'date')
+    const endDate = raw.endDate === undefined ? undefined : toAnnotationDate(raw.endDate, raw.name, 'endDate')
+    if (endDate && endDate < date) {
+      throw new Error(`Annotation "${raw.name}" ends before it starts`)
+    }
+
+    return {
+      name: raw.name,
+      type,
+      date,
+      endDate,
+      impact,
+      siteId: typeof raw.siteId === 'string' ? raw.siteId : undefined,
+      description: typeof raw.description === 'string' ? raw.description : undefined,
+    }
+  })
+}
+
+export async function loadAnnotations(path: string): Promise<Annotation[]> {
+  const text = await readFile(path, 'utf-8')
+  try {
+    return parseAnnotations(JSON.parse(text))
+  } catch (err: any) {
+    throw new Error(`Failed to load annotations from ${path}: ${err?.message || err}`)
+  }
+}
+
+function toAnnotationDate(value: unknown, name: string, field: string): string {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new Error(`Annotation "${name}" has an invalid ${field}`)
+  }
+  return toDateKey(value)
+}
+
+/**
+ * Annotations indexed for date-range lookups
+ */
+export class AnnotationCalendar {
+  private annotations: Annotation[]
+
+  constructor(annotations: Annotation[] = []) {
+    this.annotations = [...annotations].sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  /**
+   * Annotations active at any point in [start, end], for `siteId` or every site
+   */
+  between(start: string, end: string, siteId?: string): Annotation[] {
+    const from = toDateKey(start)
+    const to = toDateKey(end)
+
+    return this.annotations.filter(a =>
+      a.date <= to &&
+      (a.endDate ?? a.date) >= from &&
+      (!a.siteId || !siteId || a.siteId === siteId)
+    )
+  }
+
+  getAll(): Annotation[] {
+    return [...this.annotations]
+  }
+
+  get size(): number {
+    return this.annotations.length
+  }
+}
+
+export function createAnnotationCalendar(annotations?: Annotation[]): AnnotationCalendar {
+  return new AnnotationCalendar(annotations)
+}
@@ -0,0 +1,173 @@
+// ============================================================
+// cr0n-engine — Cannibalization Detection
+// Finds queries several of the site's URLs split between them,
+// and decides which URL each should consolidate on
+// ============================================================
+
+import type {
+  PageData,
+  QueryData,
+  CannibalizationConfig,
+  CannibalizationRole,
+  CannibalizedQuery,
+  CannibalizingUrl,
+  ConsolidationStep,
+  PageCannibalization,
+} from '../core/types.js'
+import { DEFAULT_CANNIBALIZATION } from '../core/constants.js'
+
+interface Ranking {
+  page: PageData
+  query: QueryData
+}
+
+/**
+ * Queries where two or more URLs each hold at least `minShare` of the
+ * impressions, ranking within `maxPositionGap` of the strongest one.
+ * Rows carry no dates, so position churn is inferred: when Google swaps
+ * URLs for a query, each collects impressions at similar positions.
+ * URLs far below the strongest are ranking alongside it, not churning.
+ */
+export function detectCannibalization(
+  pages: PageData[],
+  config?: Partial<CannibalizationConfig>
+): CannibalizedQuery[] {
+  const { minQueryImpressions, minShare, maxPositionGap } = { ...DEFAULT_CANNIBALIZATION, ...config }
+
+  const byQuery = new Map<string, Ranking[]>()
+  for (const page of pages) {
+    for (const query of page.queries ?? []) {
+      if (query.impressions <= 0) continue
+      const key = query.query.trim().toLowerCase()
+      const rankings = byQuery.get(key) ?? []
+      rankings.push({ page, query })
+      byQuery.set(key, rankings)
+    }
+  }
+
+  const conflicts: CannibalizedQuery[] = []
+
+  for (const rankings of byQuery.values()) {
+    if (rankings.length < 2) continue
+
+    const total = rankings.reduce((sum, r) => sum + r.query.impressions, 0)
+    if (total < minQueryImpressions) continue
+
+    const sorted = rankings
+      .filter(r => r.query.impressions / total >= minShare)
+      .sort((a, b) =>
+        b.query.clicks - a.query.clicks ||
+        b.query.impressions - a.query.impressions ||
+        a.query.position - b.query.position
+      )
+    if (sorted.length < 2) continue
+
+    const keep = sorted[0]
+    const competing = sorted.filter(r => Math.abs(r.query.position - keep.query.position) <= maxPositionGap)
+    if (competing.length < 2) continue
+
+    const clicks = competing.reduce((sum, r) => sum + r.query.clicks, 0)
+    const impressions = competing.reduce((sum, r) => sum + r.query.impressions, 0)
+    const positions = competing.map(r => r.query.position)
+    const urls: CannibalizingUrl[] = competing.map(({ page, query }) => ({
+      url: page.url,
+      clicks: query.clicks,
+      impressions: query.impressions,
+      ctr: query.ctr,
+      position: query.position,
+      share: query.impressions / total,
+    }))
+
+    conflicts.push({
+      query: keep.query.query,
+      clicks,
+      impressions,
+      ctr: impressions > 0 ? clicks / impressions : 0,
+      position: competing.reduce((sum, r) => sum + r.query.position * r.query.impressions, 0) / impressions,
+      keepUrl: keep.page.url,
+      positionGap: Math.max(...positions) - Math.min(...positions),
+      urls,
+    })
+  }
+
+  return conflicts.sort((a, b) => b.impressions - a.impressions)
+}
+
+/**
+ * Annotate every page involved in cannibalization with its role, the
+ * URL to keep and what to do with each competitor. A URL that loses
+ * queries is redirected when they make up at least `redirectShare` of
+ * its impressions, and merged otherwise. Pages not involved lose any
+ * earlier annotation.
+ */
+export function tagCannibalization(
+  pages: PageData[],
+  config?: Partial<CannibalizationConfig>
+): PageData[] {
+  const { redirectShare } = { ...DEFAULT_CANNIBALIZATION, ...config }
+  const conflicts = detectCannibalization(pages, config)
+  if (conflicts.length === 0 && !pages.some(p => p.cannibalization)) return pages
+
+  const pageImpressions = new Map(pages.map(p => [p.url, p.impressions]))
+  const byUrl = new Map<string, CannibalizedQuery[]>()
+  const lostImpressions = new Map<string, number>()
+
+  for (const conflict of conflicts) {
+    for (const entry of conflict.urls) {
+      const list = byUrl.get(entry.url) ?? []
+      list.push(conflict)
+      byUrl.set(entry.url, list)
+
+      if (entry.url !== conflict.keepUrl) {
+        lostImpressions.set(entry.url, (lostImpressions.get(entry.url) ?? 0) + entry.impressions)
+      }
+    }
+  }
+
+  // What to do with a URL wherever it loses a query
+  const loserRole = (url: string): CannibalizationRole => {
+    const impressions = pageImpressions.get(url) ?? 0
+    const lost = lostImpressions.get(url) ?? 0
+    return impressions > 0 && lost / impressions >= redirectShare ? 'redirect' : 'merge'
+  }
+
+  return pages.map(page => {
+    const conflictsForPage = byUrl.get(page.url)
+    if (!conflictsForPage) {
+      if (!page.cannibalization) return page
+      const { cannibalization: _cannibalization, ...rest } = page
+      return rest
+    }
+
+    // Largest conflict first (detectCannibalization sorts by impressions)
+    const [largest] = conflictsForPage
+    const competitors = new Map<string, ConsolidationStep>()
+
+    for (const conflict of conflictsForPage) {
+      for (const entry of conflict.urls) {
+        if (entry.url === page.url) continue
+        const step = competitors.get(entry.url)
+        if (step) {
+          step.queries.push(conflict.query)
+          continue
+        }
+        // Role from the largest query the two URLs share
+        competitors.set(entry.url, {
+          url: entry.url,
+          role: entry.url === conflict.keepUrl ? 'keep' : loserRole(entry.url),
+          queries: [conflict.query],
+        })
+      }
+    }
+
+    const cannibalization: PageCannibalization = {
+      role: largest.keepUrl === page.url ? 'keep' : loserRole(page.url),
+      keepUrl: largest.keepUrl,
+      impressions: conflictsForPage.reduce((sum, c) => sum + c.impressions, 0),
+      queries: conflictsForPage.map(c => c.query),
+      competitors: Array.from(competitors.values()),
+    }
+
+    return { ...page, cannibalization }
+  })
+}
@@ -0,0 +1,170 @@
+// ============================================================
+// cr0n-engine — Snapshot History
+// Date-stamped page metrics per URL, with windowed aggregates
+// for before/after comparisons
+// ============================================================
+
+import type { PageData, PageSnapshot, MetricWindow } from '../core/types.js'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+/**
+ * YYYY-MM-DD for a Date or ISO timestamp (UTC)
+ */
+export function toDateKey(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date
+  return new Date(date).toISOString().split('T')[0]
+}
+
+/** Whole days from `from` to `to`, negative when `to` is earlier */
+export function daysBetween(from: Date | string, to: Date | string): number {
+  return Math.round((Date.parse(`${toDateKey(to)}T00:00:00Z`) - Date.parse(`${toDateKey(from)}T00:00:00Z`)) / DAY_MS)
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${toDateKey(date)}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .split('T')[0]
+}
+
+export function toSnapshot(page: PageData, date: string, siteId: string): PageSnapshot {
+  return {
+    siteId,
+    url: page.url,
+    date: toDateKey(date),
+    clicks: page.clicks,
+    impressions: page.impressions,
+    ctr: page.ctr,
+    position: page.position,
+    conversions: page.conversions,
+    sessions: page.sessions,
+  }
+}
+
+/**
+ * Average a set of snapshots into one window
+ */
+export function aggregateWindow(
+  snapshots: PageSnapshot[],
+  start: string,
+  end: string
+): MetricWindow | null {
+  const n = snapshots.length
+  if (n === 0) return null
+
+  let clicks = 0
+  let impressions = 0
+  let conversions = 0
+  let weightedPosition = 0
+  let positionSum = 0
+  let ctrSum = 0
+
+  for (const s of snapshots) {
+    clicks += s.clicks
+    impressions += s.impressions
+    conversions += s.conversions
+    weightedPosition += s.position * s.impressions
+    positionSum += s.position
+    ctrSum += s.ctr
+  }
+
+  return {
+    start,
+    end,
+    days: n,
+    clicks: clicks / n,
+    impressions: impressions / n,
+    ctr: impressions > 0 ? clicks / impressions : ctrSum / n,
+    position: impressions > 0 ? weightedPosition / impressions : positionSum / n,
+    conversions: conversions / n,
+  }
+}
+
+/**
+ * In-memory index of snapshots for one site, keyed by URL then date.
+ * A later snapshot for the same URL and date replaces the earlier one.
+ */
+export class SnapshotHistory {
+  private byUrl = new Map<string, Map<string, PageSnapshot>>()
+
+  constructor(snapshots: PageSnapshot[] = []) {
+    this.addAll(snapshots)
+  }
+
+  add(snapshot: PageSnapshot): void {
+    let dates = this.byUrl.get(snapshot.url)
+    if (!dates) {
+      dates = new Map()
+      this.byUrl.set(snapshot.url, dates)
+    }
+    dates.set(toDateKey(snapshot.date), { ...snapshot, date: toDateKey(snapshot.date) })
+  }
+
+  addAll(snapshots: PageSnapshot[]): void {
+    for (const snapshot of snapshots) this.add(snapshot)
+  }
+
+  /**
+   * Record the current page data as snapshots for `date`
+   */
+  recordPages(pages: PageData[], date: string, siteId: string): PageSnapshot[] {
+    const snapshots = pages.map(page => toSnapshot(page, date, siteId))
+    this.addAll(snapshots)
+    return snapshots
+  }
+
+  /**
+   * Snapshots for a URL in date order, optionally within [start, end]
+   */
+  getSnapshots(url: string, start?: string, end?: string): PageSnapshot[] {
+    const dates = this.byUrl.get(url)
+    if (!dates) return []
+
+    return Array.from(dates.values())
+      .filter(s => (!start || s.date >= start) && (!end || s.date <= end))
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  getWindow(url: string, start: string, end: string): MetricWindow | null {
+    return aggregateWindow(this.getSnapshots(url, start, end), start, end)
+  }
+
+  /**
+   * `days`-long windows either side of `date`. The day itself belongs to
+   * neither: changes usually ship partway through it. The after window
+   * stops at `until` when given, so snapshots past an evaluation date
+   * stay out of it.
+   */
+  getWindowsAround(
+    url: string,
+    date: string,
+    days: number,
+    until?: Date | string
+  ): { before: MetricWindow | null; after: MetricWindow | null } {
+    const day = toDateKey(date)
+    const end = addDays(day, days)
+    const last = until !== undefined && toDateKey(until) < end ? toDateKey(until) : end
+    return {
+      before: this.getWindow(url, addDays(day, -days), addDays(day, -1)),
+      after: this.getWindow(url, addDays(day, 1), last),
+    }
+  }
+
+  getUrls(): string[] {
+    return Array.from(this.byUrl.keys())
+  }
+
+  getAll(): PageSnapshot[] {
+    return this.getUrls().flatMap(url => this.getSnapshots(url))
+  }
+
+  get size(): number {
+    let count = 0
+    for (const dates of this.byUrl.values()) count += dates.size
+    return count
+  }
+}
+
+export function createSnapshotHistory(snapshots?: PageSnapshot[]): SnapshotHistory {
+  return new SnapshotHistory(snapshots)
+}
@@ -0,0 +1,133 @@
+// ============================================================
+// cr0n-engine — CSV Parsing
+// Minimal RFC 4180 reader for analytics exports
+// ============================================================
+
+export interface CsvTable {
+  headers: string[]
+  rows: Record<string, string>[]
+}
+
+/**
+ * Split CSV text into records. Handles quoted fields, escaped quotes ("")
+ * and newlines inside quotes. A leading BOM is dropped.
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records
+}
+
+/**
+ * Parse the first table in a CSV export into header-keyed rows.
+ * Lines starting with `#` (GA4 report metadata) are skipped, and a blank
+ * line after the data ends the table (GA4 appends summary tables).
+ */
+export function parseCsvTable(text: string): CsvTable {
+  const records = parseCsvRecords(text)
+  const isBlank = (record: string[]) => record.every(f => f.trim() === '')
+
+  let index = 0
+  while (
+    index < records.length &&
+    (isBlank(records[index]) || records[index][0].startsWith('#'))
+  ) {
+    index++
+  }
+
+  if (index >= records.length) return { headers: [], rows: [] }
+
+  const headers = records[index].map(h => h.trim())
+  const rows: Record<string, string>[] = []
+
+  for (const record of records.slice(index + 1)) {
+    if (isBlank(record)) break
+    if (record[0].startsWith('#')) continue
+
+    const row: Record<string, string> = {}
+    headers.forEach((header, i) => {
+      row[header] = (record[i] ?? '').trim()
+    })
+    rows.push(row)
+  }
+
+  return { headers, rows }
+}
+
+/**
+ * First header matching any of the candidates (case-insensitive)
+ */
+export function findColumn(headers: string[], candidates: string[]): string | undefined {
+  const lower = candidates.map(c => c.toLowerCase())
+  for (const candidate of lower) {
+    const found = headers.find(h => h.toLowerCase() === candidate)
+    if (found) return found
+  }
+  return undefined
+}
+
+/**
+ * Parse an exported number: thousands separators, percentages
+ * ("2.5%" → 0.025) and durations ("1m 05s" → 65) are accepted.
+ */
+export function parseExportNumber(value: string | undefined): number {
+  if (!value) return 0
+  const trimmed = value.trim()
+  if (trimmed === '' || trimmed === '-' || trimmed === '--') return 0
+
+  if (/^[\d.]+\s*[hms]\b/.test(trimmed)) {
+    let seconds = 0
+    for (const match of trimmed.matchAll(/([\d.]+)\s*([hms])/g)) {
+      const amount = parseFloat(match[1])
+      seconds += match[2] === 'h' ? amount * 3600 : match[2] === 'm' ? amount * 60 : amount
+    }
+    return seconds
+  }
+
+  const isPercent = trimmed.endsWith('%')
+  const number = parseFloat(trimmed.replace(/[,%\s]/g, ''))
+  if (!Number.isFinite(number)) return 0
+  return isPercent ? number / 100 : number
+}
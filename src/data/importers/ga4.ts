@@ -0,0 +1,91 @@
+// ============================================================
+// cr0n-engine — Google Analytics 4 Importer
+// "Pages and screens" / "Landing page" CSV exports → GA4PageData
+// ============================================================
+
+import { readFile } from 'node:fs/promises'
+import type { GA4PageData } from '../../core/types.js'
+import { findColumn, parseCsvTable, parseExportNumber } from './csv.js'
+
+const PATH_COLUMNS = [
+  'Page path and screen class',
+  'Page path + query string and screen class',
+  'Page path',
+  'Page path + query string',
+  'Landing page',
+  'Landing page + query string',
+  'Page location',
+]
+
+// The default Pages report has no Sessions column; active users is the closest proxy
+const SESSION_COLUMNS = ['Sessions', 'Active users', 'Users']
+const CONVERSION_COLUMNS = ['Key events', 'Conversions']
+const BOUNCE_COLUMNS = ['Bounce rate']
+const DURATION_COLUMNS = [
+  'Average session duration',
+  'Average engagement time per session',
+  'Average engagement time per active user',
+  'Average engagement time',
+]
+
+/**
+ * Parse a GA4 report CSV. The `#` metadata header is skipped and rows for
+ * the same path are merged (rates weighted by sessions).
+ */
+export function parseGA4PagesCsv(text: string): GA4PageData[] {
+  const table = parseCsvTable(text)
+  const pathColumn = findColumn(table.headers, PATH_COLUMNS)
+  if (!pathColumn) {
+    throw new Error(`GA4 export is missing a page path column (expected "${PATH_COLUMNS[0]}")`)
+  }
+
+  const sessionsColumn = findColumn(table.headers, SESSION_COLUMNS)
+  const conversionsColumn = findColumn(table.headers, CONVERSION_COLUMNS)
+  const bounceColumn = findColumn(table.headers, BOUNCE_COLUMNS)
+  const durationColumn = findColumn(table.headers, DURATION_COLUMNS)
+
+  const byPath = new Map<string, GA4PageData>()
+
+  for (const row of table.rows) {
+    const pagePath = row[pathColumn]
+    if (!pagePath || /^(grand )?total$/i.test(pagePath)) continue
+
+    const page: GA4PageData = {
+      pagePath,
+      sessions: sessionsColumn ? parseExportNumber(row[sessionsColumn]) : 0,
+      conversions: conversionsColumn ? parseExportNumber(row[conversionsColumn]) : 0,
+      bounceRate: bounceColumn ? toRate(parseExportNumber(row[bounceColumn])) : 0,
+      avgSessionDuration: durationColumn ? parseExportNumber(row[durationColumn]) : 0,
+    }
+
+    const existing = byPath.get(pagePath)
+    byPath.set(pagePath, existing ? mergePages(existing, page) : page)
+  }
+
+  return Array.from(byPath.values())
+}
+
+export async function importGA4Pages(path: string): Promise<GA4PageData[]> {
+  return parseGA4PagesCsv(await readFile(path, 'utf-8'))
+}
+
+/**
+ * Bounce rate comes as a fraction (0.42) or a percentage without a % sign (42)
+ */
+function toRate(value: number): number {
+  return value > 1 ? value / 100 : value
+}
+
+function mergePages(a: GA4PageData, b: GA4PageData): GA4PageData {
+  const sessions = a.sessions + b.sessions
+  const weighted = (x: number, y: number) =>
+    sessions > 0 ? (x * a.sessions + y * b.sessions) / sessions : (x + y) / 2
+
+  return {
+    pagePath: a.pagePath,
+    sessions,
+    conversions: a.conversions + b.conversions,
+    bounceRate: weighted(a.bounceRate, b.bounceRate),
+    avgSessionDuration: weighted(a.avgSessionDuration, b.avgSessionDuration),
+  }
+}
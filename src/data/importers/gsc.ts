@@ -0,0 +1,280 @@
+// ============================================================
+// cr0n-engine — Google Search Console Importers
+// Performance report exports (CSV / ZIP) and bulk-export
+// BigQuery rows (JSON lines) → GSCPageData
+// ============================================================
+
+import { readFile } from 'node:fs/promises'
+import { basename, extname } from 'node:path'
+import type { GSCPageData, QueryData } from '../../core/types.js'
+import { findColumn, parseCsvTable, parseExportNumber, type CsvTable } from './csv.js'
+import { readZipEntries } from './zip.js'
+
+// ============================================================
+// Performance report export
+// ============================================================
+
+export interface GSCPerformanceOptions {
+  /**
+   * URL the export was filtered to. Queries.csv rows are attributed to it.
+   * Detected from Filters.csv when omitted.
+   */
+  page?: string
+}
+
+export interface GSCPerformanceExport {
+  rows: GSCPageData[]                 // Ready for aggregateData()
+  queries: QueryData[]                // The Queries table as exported
+  filters: Record<string, string>     // Filters.csv, e.g. { 'Search type': 'Web' }
+  page?: string                       // URL the queries were attributed to
+}
+
+const PAGE_COLUMNS = ['Top pages', 'Page', 'Pages']
+const QUERY_COLUMNS = ['Top queries', 'Query', 'Queries']
+
+/**
+ * Parse the Pages table: one page-level row per URL (query is empty)
+ */
+export function parseGSCPagesCsv(text: string): GSCPageData[] {
+  const table = parseCsvTable(text)
+  const pageColumn = requireColumn(table, PAGE_COLUMNS, 'Pages')
+
+  return table.rows
+    .filter(row => row[pageColumn])
+    .map(row => ({
+      url: row[pageColumn],
+      query: '',
+      ...readMetrics(table, row),
+    }))
+}
+
+/**
+ * Parse the Queries table
+ */
+export function parseGSCQueriesCsv(text: string): QueryData[] {
+  const table = parseCsvTable(text)
+  const queryColumn = requireColumn(table, QUERY_COLUMNS, 'Queries')
+
+  return table.rows
+    .filter(row => row[queryColumn])
+    .map(row => ({
+      query: row[queryColumn],
+      ...readMetrics(table, row),
+    }))
+}
+
+/**
+ * Parse a Performance report ZIP (Queries.csv, Pages.csv, Filters.csv, ...).
+ *
+ * An unfiltered export only has site-wide queries, so rows are page-level.
+ * When the export is filtered to one page, that page's queries become its
+ * rows instead — the Pages row is dropped so totals aren't counted twice.
+ */
+export function parseGSCPerformanceZip(
+  buffer: Buffer,
+  options: GSCPerformanceOptions = {}
+): GSCPerformanceExport {
+  const files = new Map<string, string>()
+  for (const [name, data] of readZipEntries(buffer)) {
+    files.set(basename(name).toLowerCase(), data.toString('utf-8'))
+  }
+
+  const pagesCsv = files.get('pages.csv')
+  const queriesCsv = files.get('queries.csv')
+  const filtersCsv = files.get('filters.csv')
+
+  if (!pagesCsv && !queriesCsv) {
+    throw new Error('GSC export contains neither Pages.csv nor Queries.csv')
+  }
+
+  const filters = filtersCsv ? parseFilters(filtersCsv) : {}
+  const queries = queriesCsv ? parseGSCQueriesCsv(queriesCsv) : []
+  const pages = pagesCsv ? parseGSCPagesCsv(pagesCsv) : []
+  const page = options.page ?? getFilteredPage(filters, pages)
+
+  const rows = page && queries.length > 0
+    ? queries.map(q => ({ url: page, ...q }))
+    : pages
+
+  return { rows, queries, filters, page }
+}
+
+/**
+ * Import a Performance export from disk: the ZIP, or a single
+ * Pages.csv / Queries.csv taken out of it
+ */
+export async function importGSCPerformance(
+  path: string,
+  options: GSCPerformanceOptions = {}
+): Promise<GSCPerformanceExport> {
+  const buffer = await readFile(path)
+
+  if (extname(path).toLowerCase() === '.zip') {
+    return parseGSCPerformanceZip(buffer, options)
+  }
+
+  const text = buffer.toString('utf-8')
+  const { headers } = parseCsvTable(text)
+
+  if (findColumn(headers, PAGE_COLUMNS)) {
+    return { rows: parseGSCPagesCsv(text), queries: [], filters: {} }
+  }
+
+  if (findColumn(headers, QUERY_COLUMNS)) {
+    const queries = parseGSCQueriesCsv(text)
+    const rows = options.page ? queries.map(q => ({ url: options.page!, ...q })) : []
+    return { rows, queries, filters: {}, page: options.page }
+  }
+
+  throw new Error(`${path} is not a GSC Pages or Queries export`)
+}
+
+function readMetrics(table: CsvTable, row: Record<string, string>) {
+  const column = (name: string) => findColumn(table.headers, [name])
+  const clicks = parseExportNumber(row[column('Clicks') ?? ''])
+  const impressions = parseExportNumber(row[column('Impressions') ?? ''])
+  const ctrColumn = column('CTR')
+
+  return {
+    clicks,
+    impressions,
+    ctr: ctrColumn
+      ? parseExportNumber(row[ctrColumn])
+      : impressions > 0 ? clicks / impressions : 0,
+    position: parseExportNumber(row[column('Position') ?? '']),
+  }
+}
+
+function requireColumn(table: CsvTable, candidates: string[], label: string): string {
+  const column = findColumn(table.headers, candidates)
+  if (!column) {
+    throw new Error(`GSC ${label} export is missing a "${candidates[0]}" column`)
+  }
+  return column
+}
+
+function parseFilters(text: string): Record<string, string> {
+  const table = parseCsvTable(text)
+  const [nameColumn, valueColumn] = table.headers
+  const filters: Record<string, string> = {}
+  if (!nameColumn || !valueColumn) return filters
+
+  for (const row of table.rows) {
+    if (row[nameColumn]) filters[row[nameColumn]] = row[valueColumn]
+  }
+  return filters
+}
+
+/**
+ * A Page filter naming a single URL, e.g. "Page" → "https://example.com/pricing".
+ * Prefix/contains filters can match many pages and are ignored — unless
+ * the Pages table confirms there was exactly one.
+ */
+function getFilteredPage(filters: Record<string, string>, pages: GSCPageData[]): string | undefined {
+  const filter = Object.entries(filters).find(([name]) => name.toLowerCase() === 'page')
+  if (!filter) return undefined
+
+  const url = filter[1].match(/https?:\/\/\S+/)?.[0]
+  if (url && pages.length <= 1) return url
+  if (pages.length === 1) return pages[0].url
+  return undefined
+}
+
+// ============================================================
+// Bulk export (BigQuery searchdata_url_impression)
+// ============================================================
+
+export interface GSCBigQueryOptions {
+  searchType?: string | null   // Default 'WEB'; null keeps every search type
+  startDate?: string           // Inclusive, YYYY-MM-DD
+  endDate?: string             // Inclusive, YYYY-MM-DD
+}
+
+/**
+ * One row of the `searchdata_url_impression` table. BigQuery's JSON
+ * export writes INT64 columns as strings, so numbers may arrive either way.
+ */
+export interface GSCBigQueryRow {
+  data_date?: string
+  site_url?: string
+  url?: string
+  query?: string | null
+  is_anonymized_query?: boolean
+  country?: string
+  search_type?: string
+  device?: string
+  impressions?: number | string
+  clicks?: number | string
+  sum_position?: number | string
+}
+
+/**
+ * Sum bulk-export rows per URL × query across dates, countries and devices.
+ * `sum_position` is zero-based, so average position = sum_position / impressions + 1.
+ * Each URL also gets a page-level row (empty query) holding its totals,
+ * anonymized queries included; those have no query row of their own.
+ */
+export function parseGSCBigQueryRows(
+  rows: GSCBigQueryRow[],
+  options: GSCBigQueryOptions = {}
+): GSCPageData[] {
+  const searchType = options.searchType === undefined ? 'WEB' : options.searchType
+  const totals = new Map<string, { url: string; query: string; clicks: number; impressions: number; sumPosition: number }>()
+
+  for (const row of rows) {
+    if (!row.url) continue
+    if (searchType && row.search_type && row.search_type.toUpperCase() !== searchType.toUpperCase()) continue
+    if (options.startDate && row.data_date && row.data_date < options.startDate) continue
+    if (options.endDate && row.data_date && row.data_date > options.endDate) continue
+
+    const query = row.is_anonymized_query ? '' : (row.query ?? '')
+    // The page row, plus the query's own row when it has one
+    for (const target of query ? ['', query] : ['']) {
+      const key = `${row.url}\u0000${target}`
+      let entry = totals.get(key)
+      if (!entry) {
+        entry = { url: row.url, query: target, clicks: 0, impressions: 0, sumPosition: 0 }
+        totals.set(key, entry)
+      }
+
+      entry.clicks += Number(row.clicks ?? 0) || 0
+      entry.impressions += Number(row.impressions ?? 0) || 0
+      entry.sumPosition += Number(row.sum_position ?? 0) || 0
+    }
+  }
+
+  return Array.from(totals.values()).map(entry => ({
+    url: entry.url,
+    query: entry.query,
+    clicks: entry.clicks,
+    impressions: entry.impressions,
+    ctr: entry.impressions > 0 ? entry.clicks / entry.impressions : 0,
+    position: entry.impressions > 0 ? entry.sumPosition / entry.impressions + 1 : 0,
+  }))
+}
+
+/**
+ * Parse newline-delimited JSON as written by `bq extract --destination_format=NEWLINE_DELIMITED_JSON`
+ */
+export function parseGSCBigQueryJsonl(text: string, options?: GSCBigQueryOptions): GSCPageData[] {
+  const rows: GSCBigQueryRow[] = []
+  const lines = text.split(/\r?\n/)
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return
+    try {
+      rows.push(JSON.parse(line))
+    } catch (err: any) {
+      throw new Error(`Invalid JSON on line ${i + 1}: ${err?.message || err}`)
+    }
+  })
+
+  return parseGSCBigQueryRows(rows, options)
+}
+
+export async function importGSCBigQuery(
+  path: string,
+  options?: GSCBigQueryOptions
+): Promise<GSCPageData[]> {
+  return parseGSCBigQueryJsonl(await readFile(path, 'utf-8'), options)
+}
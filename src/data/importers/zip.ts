@@ -0,0 +1,94 @@
+// ============================================================
+// cr0n-engine — ZIP Reader
+// Just enough of the format to read GSC export archives:
+// stored and deflated entries, no ZIP64, no encryption
+// ============================================================
+
+import { inflateRawSync } from 'node:zlib'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+/**
+ * Read every file in a ZIP archive into memory, keyed by entry name
+ */
+export function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  const eocd = findEndOfCentralDirectory(buffer)
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const entries = new Map<string, Buffer>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Corrupt ZIP: bad central directory entry at ${offset}`)
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8)
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength)
+
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entry not supported: ${name}`)
+    }
+
+    entries.set(name, readEntryData(buffer, localOffset, method, compressedSize, name))
+  }
+
+  return entries
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus an optional comment of up to 64 KiB
+  if (buffer.length < 22) {
+    throw new Error('Not a ZIP archive: end of central directory not found')
+  }
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff)
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error('Not a ZIP archive: end of central directory not found')
+}
+
+function readEntryData(
+  buffer: Buffer,
+  localOffset: number,
+  method: number,
+  compressedSize: number,
+  name: string
+): Buffer {
+  if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP: bad local header for ${name}`)
+  }
+
+  // Local name/extra lengths can differ from the central directory's
+  const nameLength = buffer.readUInt16LE(localOffset + 26)
+  const extraLength = buffer.readUInt16LE(localOffset + 28)
+  const start = localOffset + 30 + nameLength + extraLength
+  const data = buffer.subarray(start, start + compressedSize)
+
+  switch (method) {
+    case METHOD_STORED:
+      return Buffer.from(data)
+    case METHOD_DEFLATE:
+      return inflateRawSync(data)
+    default:
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`)
+  }
+}
@@ -13,93 +13,178 @@ import type {
   CTRCurve,
   LearningLog,
   WeightAdjustment,
+  BucketWeights,
+  BrandedTrafficMode,
+  BucketMatch,
+  TaskRanking,
+  EffortConfig,
+  CapacityConfig,
+  CapacitySummary,
 } from '../core/types.js'
 import { DEFAULT_WEIGHTS, DEFAULT_CTR_CURVE } from '../core/constants.js'
 import { OpportunityScorer, createScorer } from './scorer.js'
 import { ActionBucketer, createBucketer } from './bucketer.js'
+import { UpliftForecaster, createForecaster, sortByExpectedValue } from './forecaster.js'
+import { CapacityPlanner, createCapacityPlanner } from './planner.js'
 import { BriefGenerator, createBriefGenerator } from '../briefs/generator.js'
+import { BucketRegistry } from '../core/buckets.js'
+import { toDateKey } from '../data/history.js'
 
 export interface AnalyzerConfig {
   weights?: Partial<WeightConfig>
+  bucketWeights?: BucketWeights
   ctrCurve?: CTRCurve
+  brandedTraffic?: BrandedTrafficMode  // Default 'include'
   maxTasksPerRun?: number
   includeMonitorBucket?: boolean
+  bucketPriority?: ActionBucket[]  // Default BUCKET_PRIORITY
+  combineBuckets?: boolean       // One task per page covering every matched bucket
+  forecaster?: UpliftForecaster  // Default: uncalibrated, on the analyzer's CTR curve
+  rankBy?: TaskRanking           // Default 'score'
+  effort?: Partial<EffortConfig> // Writer hours per task, default DEFAULT_EFFORT
+  capacity?: CapacityConfig      // Fit tasks to team hours instead of maxTasksPerRun
+  buckets?: BucketRegistry       // Custom buckets; default built-ins only
 }
 
 export class SEOAnalyzer {
   private scorer: OpportunityScorer
   private bucketer: ActionBucketer
   private briefGenerator: BriefGenerator
-  private config: Required<AnalyzerConfig>
+  private planner: CapacityPlanner
+  private config: Required<Omit<AnalyzerConfig, 'capacity'>> & Pick<AnalyzerConfig, 'capacity'>
 
   constructor(config: AnalyzerConfig = {}) {
     const weights = { ...DEFAULT_WEIGHTS, ...config.weights }
     const ctrCurve = config.ctrCurve || DEFAULT_CTR_CURVE
 
-    this.scorer = createScorer(weights, ctrCurve)
-    this.bucketer = createBucketer(undefined, ctrCurve)
-    this.briefGenerator = createBriefGenerator()
+    const brandedTraffic = config.brandedTraffic ?? 'include'
+    const buckets = config.buckets ?? new BucketRegistry()
+
+    this.scorer = createScorer(weights, ctrCurve, config.bucketWeights, brandedTraffic)
+    this.bucketer = createBucketer(undefined, ctrCurve, brandedTraffic, config.bucketPriority, buckets)
+    this.briefGenerator = createBriefGenerator(buckets)
+
+    const forecaster = config.forecaster ?? createForecaster(undefined, ctrCurve, brandedTraffic, buckets)
+    const rankBy = config.rankBy ?? 'score'
+    const values = [rankBy, config.capacity?.value ?? rankBy]
+    if (values.includes('revenue') && forecaster.getConfig().conversionValue === undefined) {
+      throw new Error('Ranking by revenue needs a forecast conversionValue')
+    }
+    this.planner = createCapacityPlanner(config.effort, config.capacity, buckets)
 
     this.config = {
       weights,
+      bucketWeights: this.scorer.getBucketWeights(),
       ctrCurve,
+      brandedTraffic,
       maxTasksPerRun: config.maxTasksPerRun || 50,
       includeMonitorBucket: config.includeMonitorBucket ?? false,
+      bucketPriority: this.bucketer.getPriority(),
+      combineBuckets: config.combineBuckets ?? false,
+      forecaster,
+      rankBy,
+      effort: config.effort ?? {},
+      capacity: config.capacity,
+      buckets,
     }
   }
 
-  analyzePage(page: PageData): SEOTask {
-    const bucket = this.bucketer.classify(page)
-    const score = this.scorer.calculateScore(page)
-    const brief = this.briefGenerator.generate(page, bucket)
+  /**
+   * Scored under the first bucket's weights. Further buckets fold their
+   * work into a combined brief.
+   */
+  private buildTask(page: PageData, buckets: ActionBucket[], matches: BucketMatch[]): SEOTask {
+    const [bucket, ...secondary] = buckets
 
-    return {
+    const task: SEOTask = {
       url: page.url,
-      score,
+      score: this.scorer.calculateScore(page, bucket),
       bucket,
       metrics: page,
-      brief,
+      breakdown: this.scorer.getNormalizedScores(page),
+      brief: this.briefGenerator.generateCombined(page, buckets),
+      matches,
+      forecast: this.config.forecaster.forecast(page, bucket),
     }
+    if (secondary.length > 0) task.secondaryBuckets = secondary
+    task.effort = this.planner.estimate(task)
+
+    return task
+  }
+
+  /**
+   * The buckets a task covers: the primary one, or with `combineBuckets`
+   * every match in priority order
+   */
+  private getTaskBuckets(page: PageData): { buckets: ActionBucket[]; matches: BucketMatch[] } {
+    const { bucket, matches } = this.bucketer.classifyDetailed(page)
+    const buckets = this.config.combineBuckets && matches.length > 0
+      ? matches.map(m => m.bucket)
+      : [bucket]
+
+    return { buckets, matches }
+  }
+
+  analyzePage(page: PageData): SEOTask {
+    const { buckets, matches } = this.getTaskBuckets(page)
+    return this.buildTask(page, buckets, matches)
   }
 
   analyzePages(pages: PageData[]): SEOTask[] {
+    return this.planTasks(pages).tasks
+  }
+
+  /**
+   * Tasks for the plan, best first: the top `maxTasksPerRun`, or with a
+   * capacity the most valuable set that fits its hours
+   */
+  private planTasks(pages: PageData[]): { tasks: SEOTask[]; capacity?: CapacitySummary } {
     const tasks: SEOTask[] = []
 
     for (const page of pages) {
-      const bucket = this.bucketer.classify(page)
-
-      if (bucket === 'MONITOR' && !this.config.includeMonitorBucket) {
-        continue
-      }
-
-      const score = this.scorer.calculateScore(page)
-      const brief = this.briefGenerator.generate(page, bucket)
-
-      tasks.push({
-        url: page.url,
-        score,
-        bucket,
-        metrics: page,
-        brief,
-      })
+      const { buckets: matched, matches } = this.getTaskBuckets(page)
+
+      // Without MONITOR tasks, a combined task keeps its other buckets
+      const buckets = this.config.includeMonitorBucket
+        ? matched
+        : matched.filter(b => b !== 'MONITOR')
+      if (buckets.length === 0) continue
+
+      tasks.push(this.buildTask(page, buckets, matches))
     }
 
-    tasks.sort((a, b) => b.score - a.score)
-    return tasks.slice(0, this.config.maxTasksPerRun)
+    // A URL to be redirected is handled by the brief of the URL it consolidates on
+    const consolidating = new Set(tasks
+      .filter(t => t.bucket === 'CANNIBALIZATION' || t.secondaryBuckets?.includes('CANNIBALIZATION'))
+      .map(t => t.url))
+    const planned = tasks.filter(t => {
+      const cannibalization = t.metrics.cannibalization
+      return !(cannibalization?.role === 'redirect' && consolidating.has(cannibalization.keepUrl))
+    })
+
+    const ranked = sortByExpectedValue(planned, this.config.rankBy)
+    if (!this.config.capacity) return { tasks: ranked.slice(0, this.config.maxTasksPerRun) }
+
+    const { tasks: chosen, summary } = this.planner.select(ranked, this.config.capacity.value ?? this.config.rankBy)
+    return { tasks: chosen, capacity: summary }
   }
 
+  /** `date` is the day the pages were observed (and briefs are dated), default today */
   generateDailyPlan(
     siteId: string,
     pages: PageData[],
-    learningLog: LearningLog[] = []
+    learningLog: LearningLog[] = [],
+    date: Date | string = new Date()
   ): DailyPlan {
-    const tasks = this.analyzePages(pages)
+    this.briefGenerator.setDate(date)
+    const { tasks, capacity } = this.planTasks(pages)
     const bucketDist = this.bucketer.getBucketDistribution(pages)
 
-    return {
-      date: new Date().toISOString().split('T')[0],
+    const plan: DailyPlan = {
+      date: toDateKey(date),
       siteId,
       activeWeights: this.scorer.getWeights(),
+      activeBucketWeights: this.scorer.getBucketWeights(),
       tasks,
       learningLog,
       stats: {
@@ -108,6 +193,9 @@ export class SEOAnalyzer {
         bucketDistribution: bucketDist,
       },
     }
+    if (capacity) plan.capacity = capacity
+
+    return plan
   }
 
   createAnalysisRun(
@@ -138,6 +226,8 @@ export class SEOAnalyzer {
       relevanceRebuildCount: dist.RELEVANCE_REBUILD,
       localBoostCount: dist.LOCAL_BOOST,
       monitorCount: dist.MONITOR,
+      cannibalizationCount: dist.CANNIBALIZATION,
+      contentDecayCount: dist.CONTENT_DECAY,
       learningCycleRan: options.learningCycleRan ?? false,
       actionsEvaluated: options.actionsEvaluated ?? 0,
       successfulActions: options.successfulActions ?? 0,
@@ -155,28 +245,23 @@ export class SEOAnalyzer {
     limit: number = 5
   ): Record<ActionBucket, SEOTask[]> {
     const groups = this.bucketer.groupByBucket(pages)
-    const result: Record<ActionBucket, SEOTask[]> = {
-      CTR_FIX: [],
-      STRIKING_DISTANCE: [],
-      RELEVANCE_REBUILD: [],
-      LOCAL_BOOST: [],
-      MONITOR: [],
-    }
+    const result = {} as Record<ActionBucket, SEOTask[]>
 
     for (const bucket of Object.keys(groups) as ActionBucket[]) {
       const bucketPages = groups[bucket]
       const tasks = bucketPages
         .map(page => ({
           url: page.url,
-          score: this.scorer.calculateScore(page),
+          score: this.scorer.calculateScore(page, bucket),
           bucket,
           metrics: page,
+          breakdown: this.scorer.getNormalizedScores(page),
           brief: this.briefGenerator.generate(page, bucket),
+          forecast: this.config.forecaster.forecast(page, bucket),
         }))
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit)
+        .map(task => ({ ...task, effort: this.planner.estimate(task) }))
 
-      result[bucket] = tasks
+      result[bucket] = sortByExpectedValue(tasks, this.config.rankBy).slice(0, limit)
     }
 
     return result
@@ -191,13 +276,29 @@ export class SEOAnalyzer {
     this.config.weights = this.scorer.getWeights()
   }
 
+  getBucketWeights(): BucketWeights {
+    return this.scorer.getBucketWeights()
+  }
+
+  setBucketWeights(bucketWeights: BucketWeights): void {
+    this.scorer.setBucketWeights(bucketWeights)
+    this.config.bucketWeights = this.scorer.getBucketWeights()
+  }
+
   getCTRCurve(): CTRCurve {
     return this.scorer.getCTRCurve()
   }
 
   setCTRCurve(curve: Partial<CTRCurve>): void {
     this.scorer.setCTRCurve(curve)
-    this.bucketer = createBucketer(undefined, this.scorer.getCTRCurve())
+    this.config.forecaster.setCTRCurve(this.scorer.getCTRCurve())
+    this.bucketer = createBucketer(
+      undefined,
+      this.scorer.getCTRCurve(),
+      this.config.brandedTraffic,
+      this.config.bucketPriority,
+      this.config.buckets
+    )
   }
 }
 
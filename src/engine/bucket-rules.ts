@@ -0,0 +1,181 @@
+// ============================================================
+// cr0n-engine — Bucket Rules
+// Evaluates the JSON rule DSL of buckets against a page. The
+// built-in buckets are expressed in it too.
+// ============================================================
+
+import type {
+  PageData,
+  BuiltInBucket,
+  BucketCriteria,
+  BucketRule,
+  BucketCondition,
+  BucketCriterionCheck,
+  BucketOperator,
+  BucketRuleValue,
+} from '../core/types.js'
+
+type FieldValue = BucketCriterionCheck['value']
+
+/** Resolves a rule field (PageData path or derived field) for one page */
+export type FieldResolver = (field: string) => FieldValue
+
+/**
+ * Read a dotted path from a page, e.g. 'nonBrandedTraffic.ctr'.
+ * Missing paths and non-scalar values resolve to null.
+ */
+export function getPageField(page: PageData, path: string): FieldValue {
+  let value: unknown = page
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return null
+    value = (value as Record<string, unknown>)[key]
+  }
+
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+    return value
+  }
+  // Arrays (localKeywords) are kept joined so 'contains' can search them
+  if (Array.isArray(value)) return value.join('\n')
+  return null
+}
+
+/**
+ * One criterion check. Numeric comparisons need numbers on both sides,
+ * '=' / '!=' are strict, 'contains' and 'matches' ignore case, and a
+ * null value fails every operator.
+ */
+export function checkValue(
+  criterion: string,
+  value: FieldValue,
+  operator: BucketOperator,
+  threshold: BucketRuleValue
+): BucketCriterionCheck {
+  return { criterion, value, operator, threshold, passed: compare(value, operator, threshold) }
+}
+
+function compare(value: FieldValue, op: BucketOperator, threshold: BucketRuleValue): boolean {
+  if (value === null) return false
+
+  switch (op) {
+    case '>=':
+    case '<=':
+    case '>':
+    case '<': {
+      if (typeof value !== 'number' || typeof threshold !== 'number') return false
+      if (op === '>=') return value >= threshold
+      if (op === '<=') return value <= threshold
+      if (op === '>') return value > threshold
+      return value < threshold
+    }
+    case '=': return value === threshold
+    case '!=': return value !== threshold
+    case 'in':
+      return Array.isArray(threshold) && (threshold as Array<number | string>).some(t => t === value)
+    case 'contains':
+      return String(value).toLowerCase().includes(String(threshold).toLowerCase())
+    case 'matches':
+      return new RegExp(String(threshold), 'i').test(String(value))
+  }
+}
+
+function checkCondition(condition: BucketCondition, resolve: FieldResolver): BucketCriterionCheck {
+  const value = resolve(condition.field)
+  let threshold: BucketRuleValue
+
+  if (typeof condition.value === 'object' && !Array.isArray(condition.value)) {
+    const { field, multiply = 1 } = condition.value
+    const other = resolve(field)
+    threshold = typeof other === 'number' ? other * multiply : NaN
+  } else {
+    threshold = condition.value
+  }
+
+  return checkValue(condition.field, value, condition.op, threshold)
+}
+
+/**
+ * Evaluate a rule. `checks` lists the conditions behind the result:
+ * every condition of an `all`, and only the passing branches of an `any`
+ * (all branches when none pass).
+ */
+export function evaluateBucketRule(
+  rule: BucketRule,
+  resolve: FieldResolver
+): { passed: boolean; checks: BucketCriterionCheck[] } {
+  if ('all' in rule) {
+    const results = rule.all.map(r => evaluateBucketRule(r, resolve))
+    return {
+      passed: results.every(r => r.passed),
+      checks: results.flatMap(r => r.checks),
+    }
+  }
+
+  if ('any' in rule) {
+    const results = rule.any.map(r => evaluateBucketRule(r, resolve))
+    const passing = results.filter(r => r.passed)
+    return {
+      passed: passing.length > 0,
+      checks: (passing.length > 0 ? passing : results).flatMap(r => r.checks),
+    }
+  }
+
+  const check = checkCondition(rule, resolve)
+  return { passed: check.passed, checks: [check] }
+}
+
+/**
+ * The built-in buckets as rules over their criteria. The bucketer
+ * evaluates them exactly like custom buckets, so the DSL and the
+ * built-ins can't drift apart.
+ */
+export function getBuiltInBucketRules(criteria: BucketCriteria): Record<BuiltInBucket, BucketRule> {
+  const { CTR_FIX, STRIKING_DISTANCE, RELEVANCE_REBUILD, MONITOR, CANNIBALIZATION, CONTENT_DECAY } = criteria
+
+  return {
+    CTR_FIX: {
+      all: [
+        { field: 'impressions', op: '>=', value: CTR_FIX.minImpressions },
+        { field: 'ctr', op: '<', value: { field: 'expectedCtr', multiply: 1 - CTR_FIX.ctrGapThreshold } },
+      ],
+    },
+    STRIKING_DISTANCE: {
+      all: [
+        { field: 'position', op: '>=', value: STRIKING_DISTANCE.minPosition },
+        { field: 'position', op: '<=', value: STRIKING_DISTANCE.maxPosition },
+        { field: 'impressions', op: '>=', value: STRIKING_DISTANCE.minImpressions },
+      ],
+    },
+    RELEVANCE_REBUILD: {
+      all: [
+        { field: 'position', op: '>=', value: RELEVANCE_REBUILD.minPosition },
+        { field: 'position', op: '<=', value: RELEVANCE_REBUILD.maxPosition },
+        { field: 'impressions', op: '>=', value: RELEVANCE_REBUILD.minImpressions },
+      ],
+    },
+    LOCAL_BOOST: {
+      all: [
+        { field: 'localIntent', op: '=', value: true },
+        { field: 'position', op: '>', value: 3 },
+      ],
+    },
+    MONITOR: {
+      all: [
+        { field: 'position', op: '<=', value: MONITOR.maxPosition },
+      ],
+    },
+    // The URL its contested queries should consolidate on. Competing URLs
+    // are folded into its brief rather than bucketed.
+    CANNIBALIZATION: {
+      all: [
+        { field: 'cannibalization.role', op: '=', value: 'keep' },
+        { field: 'cannibalization.impressions', op: '>=', value: CANNIBALIZATION.minImpressions },
+      ],
+    },
+    CONTENT_DECAY: {
+      all: [
+        { field: 'decay.decaying', op: '=', value: true },
+        { field: 'position', op: '<=', value: CONTENT_DECAY.maxPosition },
+      ],
+    },
+  }
+}
@@ -1,6 +1,8 @@
 // ============================================================
 // cr0n-engine — Action Bucket Classifier
-// Assigns pages to action buckets based on criteria
+// Assigns pages to action buckets based on criteria,
+// in a configurable priority order. Built-in and registered
+// custom buckets alike are matched by their rules.
 // ============================================================
 
 import type {
@@ -8,60 +10,117 @@ import type {
   ActionBucket,
   BucketCriteria,
   CTRCurve,
+  BrandedTrafficMode,
+  BucketCriterionCheck,
+  BucketMatch,
+  BucketClassification,
+  BucketRule,
+  BuiltInBucket,
 } from '../core/types.js'
-import { BUCKET_CRITERIA, DEFAULT_CTR_CURVE, getExpectedCTR, LOCAL_INDICATORS } from '../core/constants.js'
-
-export class ActionBucketer {
-  private criteria: BucketCriteria
-  private ctrCurve: CTRCurve
-
-  constructor(criteria?: Partial<BucketCriteria>, ctrCurve?: CTRCurve) {
-    this.criteria = { ...BUCKET_CRITERIA, ...criteria }
-    this.ctrCurve = ctrCurve || DEFAULT_CTR_CURVE
+import { BucketRegistry } from '../core/buckets.js'
+import {
+  BUCKET_CRITERIA,
+  BUCKET_PRIORITY,
+  DEFAULT_CTR_CURVE,
+  LOCAL_INDICATORS,
+} from '../core/constants.js'
+import { getPageExpectedCTR, withoutBrandedTraffic } from './ctr-curve.js'
+import { evaluateBucketRule, getBuiltInBucketRules, getPageField } from './bucket-rules.js'
+
+/**
+ * A custom priority order, completed with the buckets it leaves out:
+ * built-ins in BUCKET_PRIORITY order, then `buckets`' custom ones
+ */
+export function resolveBucketPriority(
+  priority?: ActionBucket[],
+  buckets: BucketRegistry = new BucketRegistry()
+): ActionBucket[] {
+  const defaults = [...BUCKET_PRIORITY, ...buckets.getCustom().map(b => b.name)]
+  if (!priority) return defaults
+
+  for (const bucket of priority) {
+    if (!buckets.has(bucket)) {
+      throw new Error(`Unknown bucket "${bucket}" in bucket priority`)
+    }
+  }
+  if (new Set(priority).size !== priority.length) {
+    throw new Error('Bucket priority lists a bucket more than once')
   }
 
-  private isCTRFix(page: PageData): boolean {
-    const { minImpressions, ctrGapThreshold } = this.criteria.CTR_FIX
-    const expectedCtr = getExpectedCTR(page.position, this.ctrCurve)
+  return [...priority, ...defaults.filter(bucket => !priority.includes(bucket))]
+}
 
-    return (
-      page.impressions >= minImpressions &&
-      page.ctr < expectedCtr * (1 - ctrGapThreshold)
-    )
+/**
+ * e.g. "CTR_FIX: impressions 1200 >= 500, ctr 0.012 < 0.0618"
+ */
+export function describeBucketMatch(match: BucketMatch): string {
+  const format = (value: BucketCriterionCheck['value'] | BucketCriterionCheck['threshold']) => {
+    if (typeof value === 'number') return String(Number(value.toPrecision(3)))
+    if (Array.isArray(value)) return `[${value.join(', ')}]`
+    return typeof value === 'string' ? JSON.stringify(value) : String(value)
   }
 
-  private isStrikingDistance(page: PageData): boolean {
-    const { minPosition, maxPosition, minImpressions } = this.criteria.STRIKING_DISTANCE
+  const checks = match.checks
+    .map(c => `${c.criterion} ${format(c.value)} ${c.operator} ${format(c.threshold)}`)
+    .join(', ')
+  return `${match.bucket}: ${checks}`
+}
 
-    return (
-      page.position >= minPosition &&
-      page.position <= maxPosition &&
-      page.impressions >= minImpressions
-    )
+export class ActionBucketer {
+  private criteria: BucketCriteria
+  private rules: Record<BuiltInBucket, BucketRule>
+  private ctrCurve: CTRCurve
+  private brandedTraffic: BrandedTrafficMode
+  private buckets: BucketRegistry
+  private priority?: ActionBucket[]
+
+  constructor(
+    criteria?: Partial<BucketCriteria>,
+    ctrCurve?: CTRCurve,
+    brandedTraffic: BrandedTrafficMode = 'include',
+    priority?: ActionBucket[],
+    buckets?: BucketRegistry
+  ) {
+    this.criteria = { ...BUCKET_CRITERIA, ...criteria }
+    this.rules = getBuiltInBucketRules(this.criteria)
+    this.ctrCurve = ctrCurve || DEFAULT_CTR_CURVE
+    this.brandedTraffic = brandedTraffic
+    this.buckets = buckets ?? new BucketRegistry()
+    if (priority) this.setPriority(priority)
   }
 
-  private isRelevanceRebuild(page: PageData): boolean {
-    const { minPosition, maxPosition, minImpressions } = this.criteria.RELEVANCE_REBUILD
-
-    return (
-      page.position >= minPosition &&
-      page.position <= maxPosition &&
-      page.impressions >= minImpressions
-    )
+  private isLocal(page: PageData): boolean {
+    return page.isLocalPage || page.intent === 'local' || this.detectLocalIntent(page)
   }
 
-  private isLocalBoost(page: PageData): boolean {
-    if (!page.isLocalPage && page.intent !== 'local') {
-      const hasLocalKeyword = this.detectLocalIntent(page)
-      if (!hasLocalKeyword) return false
+  /**
+   * Rule fields: any PageData path, plus expectedCtr and ctrGap (the same
+   * expected CTR CTR_FIX uses), localIntent and queryCount
+   */
+  private resolveField(page: PageData, field: string): BucketCriterionCheck['value'] {
+    switch (field) {
+      case 'expectedCtr': return getPageExpectedCTR(page, this.ctrCurve, this.brandedTraffic)
+      case 'ctrGap': {
+        const expected = getPageExpectedCTR(page, this.ctrCurve, this.brandedTraffic)
+        return expected > 0 ? (expected - page.ctr) / expected : 0
+      }
+      case 'localIntent': return this.isLocal(page)
+      case 'queryCount': return page.queries?.length ?? 0
+      default: return getPageField(page, field)
     }
+  }
 
-    return page.position > 3
+  /** The rule a bucket is matched by */
+  getRule(bucket: ActionBucket): BucketRule {
+    if (bucket in this.rules) return this.rules[bucket as BuiltInBucket]
+    const definition = this.buckets.get(bucket)
+    if (!definition) throw new Error(`Unknown bucket "${bucket}"`)
+    return definition.when
   }
 
-  private isMonitor(page: PageData): boolean {
-    const { maxPosition } = this.criteria.MONITOR
-    return page.position <= maxPosition
+  private match(page: PageData, bucket: ActionBucket): BucketMatch | null {
+    const { passed, checks } = evaluateBucketRule(this.getRule(bucket), field => this.resolveField(page, field))
+    return passed ? { bucket, checks } : null
   }
 
   private detectLocalIntent(page: PageData): boolean {
@@ -106,13 +165,24 @@ export class ActionBucketer {
     return [...new Set(localKeywords)]
   }
 
+  /**
+   * Every bucket the page matches, in priority order, with the values
+   * that put it there
+   */
+  classifyDetailed(page: PageData): BucketClassification {
+    if (this.brandedTraffic === 'exclude') page = withoutBrandedTraffic(page)
+
+    const matches: BucketMatch[] = []
+    for (const bucket of this.getPriority()) {
+      const match = this.match(page, bucket)
+      if (match) matches.push(match)
+    }
+
+    return { bucket: matches[0]?.bucket ?? 'MONITOR', matches }
+  }
+
   classify(page: PageData): ActionBucket {
-    if (this.isMonitor(page)) return 'MONITOR'
-    if (this.isCTRFix(page)) return 'CTR_FIX'
-    if (this.isStrikingDistance(page)) return 'STRIKING_DISTANCE'
-    if (this.isLocalBoost(page)) return 'LOCAL_BOOST'
-    if (this.isRelevanceRebuild(page)) return 'RELEVANCE_REBUILD'
-    return 'MONITOR'
+    return this.classifyDetailed(page).bucket
   }
 
   classifyAll(pages: PageData[]): Array<PageData & { bucket: ActionBucket }> {
@@ -123,12 +193,9 @@ export class ActionBucketer {
   }
 
   groupByBucket(pages: PageData[]): Record<ActionBucket, PageData[]> {
-    const groups: Record<ActionBucket, PageData[]> = {
-      CTR_FIX: [],
-      STRIKING_DISTANCE: [],
-      RELEVANCE_REBUILD: [],
-      LOCAL_BOOST: [],
-      MONITOR: [],
+    const groups = {} as Record<ActionBucket, PageData[]>
+    for (const bucket of this.buckets.getBuckets()) {
+      groups[bucket] = []
     }
 
     for (const page of pages) {
@@ -141,14 +208,11 @@ export class ActionBucketer {
 
   getBucketDistribution(pages: PageData[]): Record<ActionBucket, number> {
     const groups = this.groupByBucket(pages)
-
-    return {
-      CTR_FIX: groups.CTR_FIX.length,
-      STRIKING_DISTANCE: groups.STRIKING_DISTANCE.length,
-      RELEVANCE_REBUILD: groups.RELEVANCE_REBUILD.length,
-      LOCAL_BOOST: groups.LOCAL_BOOST.length,
-      MONITOR: groups.MONITOR.length,
+    const distribution = {} as Record<ActionBucket, number>
+    for (const [bucket, group] of Object.entries(groups)) {
+      distribution[bucket] = group.length
     }
+    return distribution
   }
 
   getCriteria(): BucketCriteria {
@@ -157,14 +221,28 @@ export class ActionBucketer {
 
   setCriteria(criteria: Partial<BucketCriteria>): void {
     this.criteria = { ...this.criteria, ...criteria }
+    this.rules = getBuiltInBucketRules(this.criteria)
+  }
+
+  /** Resolved on each call, so buckets registered later are included */
+  getPriority(): ActionBucket[] {
+    return resolveBucketPriority(this.priority, this.buckets)
+  }
+
+  setPriority(priority: ActionBucket[]): void {
+    resolveBucketPriority(priority, this.buckets)
+    this.priority = [...priority]
   }
 }
 
 export function createBucketer(
   criteria?: Partial<BucketCriteria>,
-  ctrCurve?: CTRCurve
+  ctrCurve?: CTRCurve,
+  brandedTraffic?: BrandedTrafficMode,
+  priority?: ActionBucket[],
+  buckets?: BucketRegistry
 ): ActionBucketer {
-  return new ActionBucketer(criteria, ctrCurve)
+  return new ActionBucketer(criteria, ctrCurve, brandedTraffic, priority, buckets)
 }
 
 export function classifyBucket(
@@ -0,0 +1,212 @@
+// ============================================================
+// cr0n-engine — CTR Curve Fitting
+// Derives expected CTR by position from the site's own GSC data,
+// shrunk toward a prior curve where impressions are thin.
+// Expected CTR per page, with branded traffic held apart
+// ============================================================
+
+import type {
+  PageData,
+  CTRCurve,
+  CTRCurvePosition,
+  CTRCurveFitOptions,
+  BrandedTrafficMode,
+} from '../core/types.js'
+import {
+  CTR_CURVE_POSITIONS,
+  DEFAULT_CTR_CURVE,
+  DEFAULT_CTR_FIT,
+  getCTRCurvePosition,
+  getExpectedCTR,
+} from '../core/constants.js'
+import { isBrandedQuery } from '../data/aggregator.js'
+
+interface Row {
+  clicks: number
+  impressions: number
+  position: number
+}
+
+interface Point {
+  value: number
+  weight: number
+}
+
+/**
+ * The page as seen from its non-branded traffic alone. Untagged pages
+ * are returned as-is.
+ */
+export function withoutBrandedTraffic(page: PageData): PageData {
+  return page.nonBrandedTraffic ? { ...page, ...page.nonBrandedTraffic } : page
+}
+
+/**
+ * Expected CTR for a page at its position. Under 'separate', branded and
+ * non-branded impressions are each held to their own curve and blended
+ * by impressions: branded queries against `segments.branded`, or at
+ * their own CTR when the curve has no branded fit.
+ */
+export function getPageExpectedCTR(
+  page: Pick<PageData, 'position' | 'brandedTraffic' | 'nonBrandedTraffic'> & { intent?: PageData['intent'] },
+  curve: CTRCurve,
+  mode: BrandedTrafficMode = 'include'
+): number {
+  const expected = getExpectedCTR(page.position, curve, page.intent)
+  const branded = page.brandedTraffic
+  const nonBranded = page.nonBrandedTraffic
+  if (mode !== 'separate' || !branded || !nonBranded) return expected
+
+  const total = branded.impressions + nonBranded.impressions
+  if (total <= 0) return expected
+
+  const brandedCurve = curve.segments?.branded
+  const brandedExpected = brandedCurve ? getExpectedCTR(branded.position, brandedCurve) : branded.ctr
+  const nonBrandedExpected = getExpectedCTR(nonBranded.position, curve, page.intent)
+
+  return (branded.impressions * brandedExpected + nonBranded.impressions * nonBrandedExpected) / total
+}
+
+/**
+ * Fit an expected-CTR curve to `pages`.
+ *
+ * Each position's CTR is clicks / impressions over every row ranking
+ * there — query rows where the page has them, page totals otherwise —
+ * plus `priorStrength` pseudo-impressions at the prior's CTR, so thin
+ * positions stay close to `prior`. The result is then made
+ * non-increasing (weighted pool-adjacent-violators).
+ *
+ * Segmented by intent, each intent with enough impressions gets its own
+ * curve, shrunk toward the site curve. Segmented by brand, the top-level
+ * curve is the non-branded fit and the branded one sits under
+ * `segments.branded`. Queries tagged by the aggregator keep their tag;
+ * others are matched against `brandTerms`. Page-level rows can't be told
+ * apart and count as non-branded.
+ */
+export function fitCTRCurve(
+  pages: PageData[],
+  options?: Partial<CTRCurveFitOptions>,
+  prior: CTRCurve = DEFAULT_CTR_CURVE
+): CTRCurve {
+  const opts: CTRCurveFitOptions = { ...DEFAULT_CTR_FIT, ...options }
+  const base = stripSegments(prior)
+
+  if (opts.segmentBy === 'brand') {
+    const curve = fitRows(collectRows(pages, opts, 'exclude'), base, opts)
+    const brandedRows = collectRows(pages, opts, 'only')
+    const segments: Record<string, CTRCurve> = {}
+
+    if (sumImpressions(brandedRows) >= opts.minSegmentImpressions) {
+      segments.branded = fitRows(brandedRows, base, opts)
+    }
+    return { ...curve, segmentBy: 'brand', segments }
+  }
+
+  const curve = fitRows(collectRows(pages, opts, opts.branded), base, opts)
+  if (opts.segmentBy !== 'intent') return curve
+
+  const byIntent = new Map<string, PageData[]>()
+  for (const page of pages) {
+    const group = byIntent.get(page.intent) ?? []
+    group.push(page)
+    byIntent.set(page.intent, group)
+  }
+
+  const segments: Record<string, CTRCurve> = {}
+  for (const [intent, group] of byIntent) {
+    const rows = collectRows(group, opts, opts.branded)
+    if (sumImpressions(rows) < opts.minSegmentImpressions) continue
+    segments[intent] = fitRows(rows, curve, opts)
+  }
+
+  return { ...curve, segmentBy: 'intent', segments }
+}
+
+function collectRows(
+  pages: PageData[],
+  options: CTRCurveFitOptions,
+  branded: CTRCurveFitOptions['branded']
+): Row[] {
+  const rows: Row[] = []
+
+  for (const page of pages) {
+    const queries = options.useQueries && page.queries?.length ? page.queries : null
+
+    if (!queries) {
+      if (branded !== 'only') rows.push(page)
+      continue
+    }
+
+    for (const query of queries) {
+      const isBranded = query.branded ?? isBrandedQuery(query.query, options.brandTerms)
+      if (branded === 'only' && !isBranded) continue
+      if (branded === 'exclude' && isBranded) continue
+      rows.push(query)
+    }
+  }
+
+  return rows.filter(r => r.position > 0 && r.impressions >= options.minImpressions)
+}
+
+function fitRows(rows: Row[], prior: CTRCurve, options: CTRCurveFitOptions): CTRCurve {
+  const totals = new Map<CTRCurvePosition, { clicks: number; impressions: number }>()
+  for (const row of rows) {
+    const key = getCTRCurvePosition(row.position)
+    const total = totals.get(key) ?? { clicks: 0, impressions: 0 }
+    total.clicks += Math.min(row.clicks, row.impressions)
+    total.impressions += row.impressions
+    totals.set(key, total)
+  }
+
+  const k = options.priorStrength
+  const points: Point[] = CTR_CURVE_POSITIONS.map(key => {
+    const { clicks, impressions } = totals.get(key) ?? { clicks: 0, impressions: 0 }
+    const weight = impressions + k
+    return {
+      value: weight > 0 ? (clicks + k * prior[key]) / weight : prior[key],
+      weight,
+    }
+  })
+
+  const values = options.monotonic ? enforceNonIncreasing(points) : points.map(p => p.value)
+  const curve: CTRCurve = { ...prior, dataSource: 'calculated' }
+  CTR_CURVE_POSITIONS.forEach((key, i) => {
+    curve[key] = values[i]
+  })
+  curve.impressions = sumImpressions(rows)
+
+  return curve
+}
+
+/**
+ * Pool adjacent violators: merge neighbouring positions into their
+ * weighted mean until no position has a higher CTR than the one above it
+ */
+function enforceNonIncreasing(points: Point[]): number[] {
+  const blocks: Array<Point & { size: number }> = []
+
+  for (const point of points) {
+    blocks.push({ ...point, size: 1 })
+
+    while (blocks.length > 1 && blocks[blocks.length - 2].value < blocks[blocks.length - 1].value) {
+      const b = blocks.pop()!
+      const a = blocks.pop()!
+      const weight = a.weight + b.weight
+      blocks.push({
+        value: weight > 0 ? (a.value * a.weight + b.value * b.weight) / weight : (a.value + b.value) / 2,
+        weight,
+        size: a.size + b.size,
+      })
+    }
+  }
+
+  return blocks.flatMap(block => Array<number>(block.size).fill(block.value))
+}
+
+function sumImpressions(rows: Row[]): number {
+  return rows.reduce((sum, row) => sum + row.impressions, 0)
+}
+
+function stripSegments(curve: CTRCurve): CTRCurve {
+  const { segmentBy: _segmentBy, segments: _segments, impressions: _impressions, ...rest } = curve
+  return rest
+}
@@ -0,0 +1,268 @@
+// ============================================================
+// cr0n-engine — Uplift Forecaster
+// Estimates incremental clicks, conversions and revenue per task,
+// calibrated against what past actions actually delivered
+// ============================================================
+
+import type {
+  PageData,
+  ActionBucket,
+  CTRCurve,
+  BrandedTrafficMode,
+  SEOAction,
+  SEOTask,
+  EvaluationResult,
+  ForecastConfig,
+  ForecastRange,
+  ForecastCalibration,
+  UpliftForecast,
+  TaskRanking,
+} from '../core/types.js'
+import {
+  DEFAULT_CTR_CURVE,
+  DEFAULT_FORECAST,
+  getExpectedCTR,
+  getSuccessCriteria,
+  isKnownBucket,
+} from '../core/constants.js'
+import type { BucketRegistry } from '../core/buckets.js'
+import { getPageExpectedCTR } from './ctr-curve.js'
+
+/** What a forecast needs from a page; past actions supply their original metrics */
+type ForecastInput = Pick<PageData, 'clicks' | 'impressions' | 'ctr' | 'position' | 'conversions'> &
+  Partial<Pick<PageData, 'intent' | 'brandedTraffic' | 'nonBrandedTraffic'>>
+
+interface Potential {
+  basis: UpliftForecast['basis']
+  clicks: number
+  conversions?: number           // Set when the action targets conversions directly
+}
+
+interface Sample {
+  bucket: ActionBucket
+  realization: number
+}
+
+/** Linear-interpolated quantile of sorted values */
+function quantile(sorted: number[], q: number): number {
+  const index = (sorted.length - 1) * q
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+function scale(range: ForecastRange, factor: number): ForecastRange {
+  return { expected: range.expected * factor, low: range.low * factor, high: range.high * factor }
+}
+
+export class UpliftForecaster {
+  private config: ForecastConfig
+  private ctrCurve: CTRCurve
+  private brandedTraffic: BrandedTrafficMode
+  private buckets?: BucketRegistry
+  private samples: Sample[] = []
+
+  constructor(
+    config?: Partial<ForecastConfig>,
+    ctrCurve?: CTRCurve,
+    brandedTraffic: BrandedTrafficMode = 'include',
+    buckets?: BucketRegistry
+  ) {
+    this.config = { ...DEFAULT_FORECAST, ...config }
+    this.ctrCurve = ctrCurve || DEFAULT_CTR_CURVE
+    this.brandedTraffic = brandedTraffic
+    this.buckets = buckets
+
+    const { confidence, bounds } = this.config
+    if (!(confidence > 0 && confidence < 1)) {
+      throw new Error(`Forecast confidence must be between 0 and 1, got ${confidence}`)
+    }
+    if (!(bounds.low <= bounds.high)) {
+      throw new Error(`Forecast bounds.low (${bounds.low}) exceeds bounds.high (${bounds.high})`)
+    }
+  }
+
+  /**
+   * Gain on full success, over the same period as the metrics.
+   * CTR buckets close the gap to the curve; position buckets move the
+   * page up it by the target, keeping its CTR relative to the curve;
+   * volume buckets grow their metric by the target.
+   */
+  private getPotential(input: ForecastInput, bucket: ActionBucket): Potential {
+    const { metric, improvement, maintain } = getSuccessCriteria(bucket, this.buckets)
+    if (maintain) return { basis: 'none', clicks: 0 }
+
+    switch (metric) {
+      case 'ctr': {
+        const expected = getPageExpectedCTR(input, this.ctrCurve, this.brandedTraffic)
+        return { basis: 'ctr-gap', clicks: input.impressions * Math.max(expected - input.ctr, 0) }
+      }
+      case 'position': {
+        const target = Math.max(1, input.position - improvement)
+        const current = getExpectedCTR(input.position, this.ctrCurve, input.intent)
+        const moved = getExpectedCTR(target, this.ctrCurve, input.intent)
+        const ctr = current > 0 ? input.ctr * (moved / current) : moved
+        return { basis: 'position', clicks: input.impressions * Math.max(ctr - input.ctr, 0) }
+      }
+      case 'impressions':
+        return { basis: 'impressions', clicks: input.impressions * improvement * input.ctr }
+      case 'clicks':
+        return { basis: 'clicks', clicks: input.clicks * improvement }
+      case 'conversions':
+        return { basis: 'conversions', clicks: 0, conversions: input.conversions * improvement }
+    }
+  }
+
+  /**
+   * Record what past actions delivered. Each conclusive result adds the
+   * ratio of its actual relative change to the change this forecaster
+   * would have promised from the action's original metrics — clicks, or
+   * conversions for conversion buckets — clipped into `bounds`. With a
+   * control cohort the baseline moves with the cohort first, as in the
+   * evaluator, so seasonality isn't taken for forecast error. Bare
+   * actions carry no baseline conversions on the evaluator's scale, so
+   * conversion buckets learn from EvaluationResults only. Actions of
+   * buckets no longer registered are ignored. Replaces earlier calibration.
+   */
+  calibrate(results: Array<EvaluationResult | SEOAction>): void {
+    this.samples = []
+
+    for (const result of results) {
+      const action = 'action' in result ? result.action : result
+      if (!action.outcome || action.outcome === 'inconclusive') continue
+      if (!isKnownBucket(action.actionType, this.buckets)) continue
+      if (action.resultClicks === undefined || action.resultDeltaTraffic === undefined) continue
+
+      const original: ForecastInput = {
+        clicks: action.originalClicks,
+        impressions: action.originalImpressions,
+        ctr: action.originalCtr,
+        position: action.originalPosition,
+        conversions: action.originalConversions,
+      }
+      const potential = this.getPotential(original, action.actionType)
+
+      // Cohort movement on a metric over the same windows; 1 without a cohort
+      const control = 'action' in result ? result.control : undefined
+      const drift = (metric: 'clicks' | 'conversions') =>
+        control && control.before[metric] > 0 ? control.after[metric] / control.before[metric] : 1
+
+      let predicted: number
+      let before: number
+      let after: number
+      if (potential.conversions !== undefined) {
+        if (!('action' in result) || action.resultConversions === undefined) continue
+        predicted = potential.conversions / action.originalConversions
+        before = (result.windows?.before.conversions ?? action.originalConversions) * drift('conversions')
+        after = action.resultConversions
+      } else {
+        predicted = potential.clicks / action.originalClicks
+        // Window or point basis alike, the evaluator's baseline
+        before = (action.resultClicks - action.resultDeltaTraffic) * drift('clicks')
+        after = action.resultClicks
+      }
+
+      if (!(predicted > 0) || !Number.isFinite(predicted) || before <= 0) continue
+
+      const { low, high } = this.config.bounds
+      const realization = (after - before) / before / predicted
+      this.samples.push({ bucket: action.actionType, realization: Math.min(Math.max(realization, low), high) })
+    }
+  }
+
+  /**
+   * Realization for a bucket: its own samples once there are
+   * `minSamples`, all buckets pooled below that, the prior without
+   * enough of either. The interval spans the central `confidence` share
+   * of the observed ratios; the point estimate is their median, so it
+   * always lies inside the interval.
+   */
+  getCalibration(bucket: ActionBucket): ForecastCalibration {
+    const { minSamples, confidence, prior } = this.config
+
+    const own = this.samples.filter(s => s.bucket === bucket)
+    const [source, samples] = own.length >= minSamples && own.length > 0
+      ? ['bucket' as const, own]
+      : this.samples.length >= minSamples && this.samples.length > 0
+        ? ['pooled' as const, this.samples]
+        : ['prior' as const, []]
+
+    if (source === 'prior') return { source, samples: 0, realization: { ...prior } }
+
+    const sorted = samples.map(s => s.realization).sort((a, b) => a - b)
+    const tail = (1 - confidence) / 2
+    const low = quantile(sorted, tail)
+    const high = quantile(sorted, 1 - tail)
+    return {
+      source,
+      samples: sorted.length,
+      realization: {
+        expected: Math.min(Math.max(quantile(sorted, 0.5), low), high),
+        low,
+        high,
+      },
+    }
+  }
+
+  /**
+   * Expected uplift from acting on `page` under `bucket`. Conversions
+   * follow clicks at the page's GA4 conversion rate, unless the bucket
+   * targets conversions directly.
+   */
+  forecast(page: PageData, bucket: ActionBucket): UpliftForecast {
+    const potential = this.getPotential(page, bucket)
+    const calibration = this.getCalibration(bucket)
+    const conversionRate = page.sessions > 0
+      ? page.conversions / page.sessions
+      : page.clicks > 0 ? page.conversions / page.clicks : 0
+
+    const clicks = scale(calibration.realization, potential.clicks)
+    const conversions = potential.conversions !== undefined
+      ? scale(calibration.realization, potential.conversions)
+      : scale(clicks, conversionRate)
+    const { conversionValue } = this.config
+
+    return {
+      basis: potential.basis,
+      potentialClicks: potential.clicks,
+      clicks,
+      conversionRate,
+      conversions,
+      revenue: conversionValue !== undefined ? scale(conversions, conversionValue) : null,
+      calibration,
+    }
+  }
+
+  setCTRCurve(curve: CTRCurve): void {
+    this.ctrCurve = curve
+  }
+
+  getConfig(): ForecastConfig {
+    return { ...this.config, prior: { ...this.config.prior }, bounds: { ...this.config.bounds } }
+  }
+
+  /** Calibration samples recorded so far */
+  getSampleCount(): number {
+    return this.samples.length
+  }
+}
+
+export function createForecaster(
+  config?: Partial<ForecastConfig>,
+  ctrCurve?: CTRCurve,
+  brandedTraffic?: BrandedTrafficMode,
+  buckets?: BucketRegistry
+): UpliftForecaster {
+  return new UpliftForecaster(config, ctrCurve, brandedTraffic, buckets)
+}
+
+/**
+ * Order tasks by an expected uplift, highest first, falling back to the
+ * weighted score on ties and for tasks without a forecast
+ */
+export function sortByExpectedValue(tasks: SEOTask[], rankBy: TaskRanking): SEOTask[] {
+  const value = (task: SEOTask) =>
+    rankBy === 'score' ? task.score : task.forecast?.[rankBy]?.expected ?? -Infinity
+
+  return [...tasks].sort((a, b) => value(b) - value(a) || b.score - a.score)
+}
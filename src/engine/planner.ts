@@ -0,0 +1,361 @@
+// ============================================================
+// cr0n-engine — Capacity Planner
+// Estimates writer hours per task and picks the most valuable
+// set of tasks that fits the team's hours
+// ============================================================
+
+import type {
+  ActionBucket,
+  SEOTask,
+  BucketEffort,
+  EffortConfig,
+  TaskEffort,
+  CapacityConfig,
+  CapacitySummary,
+  TaskRanking,
+} from '../core/types.js'
+import { DEFAULT_EFFORT } from '../core/constants.js'
+import { BucketRegistry } from '../core/buckets.js'
+
+// Hours are planned in quarter-hour slots
+const SLOTS_PER_HOUR = 4
+
+// Candidates kept for the solver, by value per slot
+const MAX_CANDIDATES = 1000
+
+// Choice recorded per candidate and state, for backtracking
+const FROM_PREVIOUS_ROW = 1
+const FROM_SAME_ROW = 2
+
+interface Candidate {
+  task: SEOTask
+  slots: number
+  value: number
+}
+
+/**
+ * Best value per (row, slots used) within one bucket, with the choice
+ * made at each candidate for backtracking. Row r holds exactly r tasks,
+ * except the last row of a `saturating` table, which holds that many or
+ * more. A bucket without limits has a single saturating row: any count.
+ */
+interface BucketTable {
+  candidates: Candidate[]
+  rows: number
+  minRow: number                 // Lowest row that meets the bucket's minimum
+  saturating: boolean
+  best: Float64Array[]           // [row][slots]
+  taken: Uint8Array[]            // [candidate][row * (capacity + 1) + slots]
+}
+
+/** Defaults for every bucket the config leaves out */
+export function resolveEffortConfig(config?: Partial<EffortConfig>): EffortConfig {
+  const effort: EffortConfig = {
+    wordsPerHour: config?.wordsPerHour ?? DEFAULT_EFFORT.wordsPerHour,
+    buckets: { ...DEFAULT_EFFORT.buckets, ...config?.buckets },
+    default: { ...DEFAULT_EFFORT.default, ...config?.default },
+  }
+
+  if (!(effort.wordsPerHour > 0)) {
+    throw new Error(`Effort wordsPerHour must be positive, got ${effort.wordsPerHour}`)
+  }
+  for (const [bucket, entry] of Object.entries(effort.buckets)) {
+    if (!entry || !(entry.baseHours >= 0) || !(entry.rewriteShare >= 0)) {
+      throw new Error(`Effort for ${bucket} needs non-negative baseHours and rewriteShare`)
+    }
+  }
+
+  return effort
+}
+
+function checkBucketLimits(
+  limits: Partial<Record<ActionBucket, number>> | undefined,
+  name: string,
+  buckets: BucketRegistry
+): void {
+  for (const [bucket, limit] of Object.entries(limits ?? {})) {
+    if (!buckets.has(bucket)) throw new Error(`Unknown bucket "${bucket}" in ${name}`)
+    if (!(limit !== undefined && limit >= 0 && Number.isInteger(limit))) {
+      throw new Error(`${name}.${bucket} must be a non-negative integer, got ${limit}`)
+    }
+  }
+}
+
+export class CapacityPlanner {
+  private effort: EffortConfig
+  private capacity: CapacityConfig | null
+
+  /** @param buckets Custom buckets the capacity limits may name */
+  constructor(effort?: Partial<EffortConfig>, capacity?: CapacityConfig, buckets?: BucketRegistry) {
+    this.effort = resolveEffortConfig(effort)
+    this.capacity = capacity ?? null
+
+    if (capacity) {
+      if (!(capacity.hours > 0)) throw new Error(`Capacity hours must be positive, got ${capacity.hours}`)
+      const known = buckets ?? new BucketRegistry()
+      checkBucketLimits(capacity.minPerBucket, 'minPerBucket', known)
+      checkBucketLimits(capacity.maxPerBucket, 'maxPerBucket', known)
+      for (const [bucket, min] of Object.entries(capacity.minPerBucket ?? {})) {
+        const max = capacity.maxPerBucket?.[bucket]
+        if (min !== undefined && max !== undefined && min > max) {
+          throw new Error(`minPerBucket.${bucket} (${min}) exceeds maxPerBucket.${bucket} (${max})`)
+        }
+      }
+    }
+  }
+
+  private getBucketEffort(bucket: ActionBucket): BucketEffort {
+    return this.effort.buckets[bucket] ?? this.effort.default
+  }
+
+  /**
+   * Fixed hours for every bucket the task covers, plus writing time for
+   * the largest share of the brief's word count any of them rewrites
+   */
+  estimate(task: SEOTask): TaskEffort {
+    const efforts = [task.bucket, ...(task.secondaryBuckets ?? [])].map(b => this.getBucketEffort(b))
+    const baseHours = efforts.reduce((sum, e) => sum + e.baseHours, 0)
+    const share = Math.max(...efforts.map(e => e.rewriteShare))
+    const words = Math.round(task.brief.targetWordCount * share)
+
+    return { hours: baseHours + words / this.effort.wordsPerHour, baseHours, words }
+  }
+
+  hasCapacity(): boolean {
+    return this.capacity !== null
+  }
+
+  /**
+   * Choose the tasks that maximize summed value within capacity hours
+   * and the per-bucket limits: an exact 0/1 knapsack over quarter-hour
+   * slots, solved per bucket and then combined across buckets. Only the
+   * `MAX_CANDIDATES` best tasks by value per hour are considered. When
+   * the minimums can't all fit, they are dropped and reported as unmet.
+   * Returns the chosen tasks in their given order.
+   */
+  select(tasks: SEOTask[], value: TaskRanking): { tasks: SEOTask[]; summary: CapacitySummary } {
+    if (!this.capacity) throw new Error('No capacity configured')
+    const { hours, minPerBucket = {}, maxPerBucket = {} } = this.capacity
+    const capacity = Math.floor(hours * SLOTS_PER_HOUR + 1e-9)
+
+    const candidates: Candidate[] = []
+    for (const task of tasks) {
+      const effort = task.effort ?? this.estimate(task)
+      const slots = Math.max(1, Math.ceil(effort.hours * SLOTS_PER_HOUR - 1e-9))
+      if (slots <= capacity) candidates.push({ task, slots, value: getTaskValue(task, value) })
+    }
+
+    const byBucket = new Map<ActionBucket, Candidate[]>()
+    for (const candidate of trimCandidates(candidates, minPerBucket)) {
+      const list = byBucket.get(candidate.task.bucket) ?? []
+      list.push(candidate)
+      byBucket.set(candidate.task.bucket, list)
+    }
+
+    const build = (withMinimums: boolean) =>
+      Array.from(byBucket, ([bucket, list]) =>
+        solveBucket(list, withMinimums ? minPerBucket[bucket] : undefined, maxPerBucket[bucket], capacity)
+      )
+
+    let chosen = combine(build(true), capacity)
+    if (!chosen) chosen = combine(build(false), capacity) ?? new Set<SEOTask>()
+
+    const selected = tasks.filter(t => chosen.has(t))
+    const plannedHours = selected.reduce((sum, t) => sum + (t.effort ?? this.estimate(t)).hours, 0)
+    const unmetMinimums = Object.entries(minPerBucket)
+      .filter(([bucket, min]) => selected.filter(t => t.bucket === bucket).length < (min ?? 0))
+      .map(([bucket]) => bucket as ActionBucket)
+
+    return {
+      tasks: selected,
+      summary: {
+        hours,
+        plannedHours,
+        value,
+        totalValue: selected.reduce((sum, t) => sum + getTaskValue(t, value), 0),
+        deferred: tasks.length - selected.length,
+        unmetMinimums,
+      },
+    }
+  }
+}
+
+/** What a task contributes under `value`: its score, or a forecast's expected value */
+export function getTaskValue(task: SEOTask, value: TaskRanking): number {
+  return value === 'score' ? task.score : task.forecast?.[value]?.expected ?? 0
+}
+
+/**
+ * Drop tasks that can't add value, then keep the `MAX_CANDIDATES` with
+ * the most value per slot. Buckets with a minimum may need tasks worth
+ * nothing to reach it, so theirs stay in, and that many of their
+ * cheapest tasks are kept regardless.
+ */
+function trimCandidates(
+  candidates: Candidate[],
+  minPerBucket: Partial<Record<ActionBucket, number>>
+): Candidate[] {
+  const reserved = new Set<Candidate>()
+  for (const [bucket, min] of Object.entries(minPerBucket)) {
+    candidates
+      .filter(c => c.task.bucket === bucket)
+      .sort((a, b) => a.slots - b.slots)
+      .slice(0, min)
+      .forEach(c => reserved.add(c))
+  }
+
+  const ranked = candidates
+    .filter(c => !reserved.has(c) && (c.value > 0 || minPerBucket[c.task.bucket]))
+    .sort((a, b) => b.value / b.slots - a.value / a.slots)
+    .slice(0, Math.max(MAX_CANDIDATES - reserved.size, 0))
+
+  const kept = new Set([...reserved, ...ranked])
+  return candidates.filter(c => kept.has(c))
+}
+
+/** Most tasks that fit in `capacity` slots at once: the cheapest first */
+function getFitCount(candidates: Candidate[], capacity: number): number {
+  let used = 0
+  let count = 0
+  for (const slots of candidates.map(c => c.slots).sort((a, b) => a - b)) {
+    if (used + slots > capacity) break
+    used += slots
+    count++
+  }
+  return count
+}
+
+/**
+ * Counts are only tracked as far as the limits need: up to the maximum
+ * (no more than fit in capacity), or up to the minimum with the last row
+ * meaning "at least". Without limits the table has a single row.
+ */
+function solveBucket(
+  candidates: Candidate[],
+  min: number | undefined,
+  max: number | undefined,
+  capacity: number
+): BucketTable {
+  const width = capacity + 1
+  // A minimum beyond what fits leaves minRow past the last row: infeasible
+  const required = Math.min(min ?? 0, candidates.length)
+
+  let rows: number
+  let minRow: number
+  let saturating: boolean
+  if (max !== undefined) {
+    rows = Math.min(max, getFitCount(candidates, capacity)) + 1
+    minRow = required
+    saturating = false
+  } else if (required > 0) {
+    rows = required + 1
+    minRow = required
+    saturating = true
+  } else {
+    rows = 1
+    minRow = 0
+    saturating = true
+  }
+
+  const best = Array.from({ length: rows }, () => new Float64Array(width).fill(-Infinity))
+  best[0][0] = 0
+  const taken: Uint8Array[] = []
+
+  for (const candidate of candidates) {
+    const choice = new Uint8Array(rows * width)
+    // Rows and slots descend, so every update reads values from before this candidate
+    for (let r = rows - 1; r >= 0; r--) {
+      const sameRow = saturating && r === rows - 1
+      for (let w = capacity; w >= candidate.slots; w--) {
+        const from = w - candidate.slots
+        if (r > 0) {
+          const value = best[r - 1][from] + candidate.value
+          if (value > best[r][w]) {
+            best[r][w] = value
+            choice[r * width + w] = FROM_PREVIOUS_ROW
+          }
+        }
+        if (sameRow) {
+          const value = best[r][from] + candidate.value
+          if (value > best[r][w]) {
+            best[r][w] = value
+            choice[r * width + w] = FROM_SAME_ROW
+          }
+        }
+      }
+    }
+    taken.push(choice)
+  }
+
+  return { candidates, rows, minRow, saturating, best, taken }
+}
+
+/**
+ * Best total over all buckets using at most `capacity` slots; null when
+ * the bucket minimums can't be met
+ */
+function combine(tables: BucketTable[], capacity: number): Set<SEOTask> | null {
+  const width = capacity + 1
+  let total = new Float64Array(width).fill(-Infinity)
+  total[0] = 0
+  // Per bucket and total slots: the bucket's row, and the slots it uses
+  const picks: Array<{ row: Int32Array; slots: Int32Array }> = []
+
+  for (const table of tables) {
+    const next = new Float64Array(width).fill(-Infinity)
+    const row = new Int32Array(width)
+    const slots = new Int32Array(width)
+
+    for (let w = 0; w <= capacity; w++) {
+      if (total[w] === -Infinity) continue
+      for (let r = table.minRow; r < table.rows; r++) {
+        const values = table.best[r]
+        for (let used = 0; w + used <= capacity; used++) {
+          if (values[used] === -Infinity) continue
+          const value = total[w] + values[used]
+          if (value > next[w + used]) {
+            next[w + used] = value
+            row[w + used] = r
+            slots[w + used] = used
+          }
+        }
+      }
+    }
+
+    total = next
+    picks.push({ row, slots })
+  }
+
+  // Fewest slots among the best totals
+  let end = -1
+  for (let w = 0; w <= capacity; w++) {
+    if (total[w] > (end < 0 ? -Infinity : total[end])) end = w
+  }
+  if (end < 0) return null
+
+  const chosen = new Set<SEOTask>()
+  for (let b = tables.length - 1; b >= 0; b--) {
+    const table = tables[b]
+    let r = picks[b].row[end]
+    let w = picks[b].slots[end]
+    end -= w
+
+    for (let i = table.candidates.length - 1; i >= 0 && w > 0; i--) {
+      const choice = table.taken[i][r * width + w]
+      if (!choice) continue
+      chosen.add(table.candidates[i].task)
+      w -= table.candidates[i].slots
+      if (choice === FROM_PREVIOUS_ROW) r--
+    }
+  }
+
+  return chosen
+}
+
+export function createCapacityPlanner(
+  effort?: Partial<EffortConfig>,
+  capacity?: CapacityConfig,
+  buckets?: BucketRegistry
+): CapacityPlanner {
+  return new CapacityPlanner(effort, capacity, buckets)
+}
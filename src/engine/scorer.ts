@@ -10,16 +10,28 @@ import type {
   OpportunityScore,
   CTRCurve,
   ActionBucket,
+  BucketWeights,
+  BrandedTrafficMode,
 } from '../core/types.js'
-import { DEFAULT_WEIGHTS, DEFAULT_CTR_CURVE, getExpectedCTR } from '../core/constants.js'
+import { DEFAULT_WEIGHTS, DEFAULT_CTR_CURVE } from '../core/constants.js'
+import { getPageExpectedCTR, withoutBrandedTraffic } from './ctr-curve.js'
 
 export class OpportunityScorer {
   private weights: WeightConfig
+  private bucketWeights: BucketWeights
   private ctrCurve: CTRCurve
-
-  constructor(weights?: Partial<WeightConfig>, ctrCurve?: CTRCurve) {
+  private brandedTraffic: BrandedTrafficMode
+
+  constructor(
+    weights?: Partial<WeightConfig>,
+    ctrCurve?: CTRCurve,
+    bucketWeights?: BucketWeights,
+    brandedTraffic: BrandedTrafficMode = 'include'
+  ) {
     this.weights = { ...DEFAULT_WEIGHTS, ...weights }
+    this.bucketWeights = cloneBucketWeights(bucketWeights)
     this.ctrCurve = ctrCurve || DEFAULT_CTR_CURVE
+    this.brandedTraffic = brandedTraffic
   }
 
   private clamp(value: number, min: number, max: number): number {
@@ -34,10 +46,10 @@ export class OpportunityScorer {
     return this.clamp((50 - position) / 50.0, 0, 1)
   }
 
-  private normalizeCTRGap(position: number, actualCtr: number): number {
-    const expectedCtr = getExpectedCTR(position, this.ctrCurve)
+  private normalizeCTRGap(page: PageData): number {
+    const expectedCtr = getPageExpectedCTR(page, this.ctrCurve, this.brandedTraffic)
     if (expectedCtr <= 0) return 0
-    const gap = (expectedCtr - actualCtr) / expectedCtr
+    const gap = (expectedCtr - page.ctr) / expectedCtr
     return this.clamp(gap, 0, 1)
   }
 
@@ -49,25 +61,42 @@ export class OpportunityScorer {
     return this.clamp(freshnessScore, 0, 1)
   }
 
+  /**
+   * Freshness is the larger of content age and performance decay, so a
+   * recently edited page that is still sliding scores as stale
+   */
   getNormalizedScores(page: PageData): NormalizedScores {
+    if (this.brandedTraffic === 'exclude') page = withoutBrandedTraffic(page)
+    const decay = this.clamp(page.decay?.score ?? 0, 0, 1)
+
     return {
       impressions: this.normalizeImpressions(page.impressions),
       position: this.normalizePosition(page.position),
-      ctrGap: this.normalizeCTRGap(page.position, page.ctr),
+      ctrGap: this.normalizeCTRGap(page),
       conversions: this.normalizeConversions(page.conversions),
-      freshness: this.normalizeFreshness(page.freshnessScore),
+      freshness: Math.max(this.normalizeFreshness(page.freshnessScore), decay),
+      decay,
     }
   }
 
-  calculateScore(page: PageData): number {
+  /**
+   * The bucket's own vector, falling back to the global weights
+   */
+  getWeightsFor(bucket?: ActionBucket): WeightConfig {
+    const weights = (bucket && this.bucketWeights[bucket]) || this.weights
+    return { ...weights }
+  }
+
+  calculateScore(page: PageData, bucket?: ActionBucket): number {
     const normalized = this.getNormalizedScores(page)
+    const weights = (bucket && this.bucketWeights[bucket]) || this.weights
 
     const score = (
-      this.weights.impressions * normalized.impressions +
-      this.weights.position * normalized.position +
-      this.weights.ctrGap * normalized.ctrGap +
-      this.weights.conversions * normalized.conversions +
-      this.weights.freshness * normalized.freshness
+      weights.impressions * normalized.impressions +
+      weights.position * normalized.position +
+      weights.ctrGap * normalized.ctrGap +
+      weights.conversions * normalized.conversions +
+      weights.freshness * normalized.freshness
     )
 
     return Math.round(score * 10000) / 10000
@@ -75,7 +104,7 @@ export class OpportunityScorer {
 
   calculateOpportunityScore(page: PageData, bucket: ActionBucket): OpportunityScore {
     const normalized = this.getNormalizedScores(page)
-    const total = this.calculateScore(page)
+    const total = this.calculateScore(page, bucket)
 
     return {
       total,
@@ -92,6 +121,17 @@ export class OpportunityScorer {
     this.weights = { ...this.weights, ...weights }
   }
 
+  getBucketWeights(): BucketWeights {
+    return cloneBucketWeights(this.bucketWeights)
+  }
+
+  /**
+   * Replace the per-bucket vectors; buckets left out use the global weights
+   */
+  setBucketWeights(bucketWeights: BucketWeights): void {
+    this.bucketWeights = cloneBucketWeights(bucketWeights)
+  }
+
   getCTRCurve(): CTRCurve {
     return { ...this.ctrCurve }
   }
@@ -101,11 +141,21 @@ export class OpportunityScorer {
   }
 }
 
+export function cloneBucketWeights(bucketWeights?: BucketWeights): BucketWeights {
+  const clone: BucketWeights = {}
+  for (const [bucket, weights] of Object.entries(bucketWeights ?? {})) {
+    if (weights) clone[bucket as ActionBucket] = { ...DEFAULT_WEIGHTS, ...weights }
+  }
+  return clone
+}
+
 export function createScorer(
   weights?: Partial<WeightConfig>,
-  ctrCurve?: CTRCurve
+  ctrCurve?: CTRCurve,
+  bucketWeights?: BucketWeights,
+  brandedTraffic?: BrandedTrafficMode
 ): OpportunityScorer {
-  return new OpportunityScorer(weights, ctrCurve)
+  return new OpportunityScorer(weights, ctrCurve, bucketWeights, brandedTraffic)
 }
 
 export function calculateOpportunityScore(
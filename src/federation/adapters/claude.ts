@@ -11,7 +11,9 @@ import type {
   ContentScore,
   GeneratedContent,
 } from '../types.js'
-import { BUCKET_INSTRUCTIONS } from '../../core/constants.js'
+import { getBucketInstructions } from '../../core/constants.js'
+import type { BucketRegistry } from '../../core/buckets.js'
+import { toTokenUsage } from '../cost.js'
 
 export class ClaudeAdapter implements ModelAdapter {
   id: ModelId = 'claude'
@@ -21,12 +23,14 @@ export class ClaudeAdapter implements ModelAdapter {
 
   private apiKey: string
   private modelName: string
+  private buckets?: BucketRegistry
 
-  constructor(apiKey: string, model?: string) {
+  constructor(apiKey: string, model?: string, buckets?: BucketRegistry) {
     this.apiKey = apiKey
     this.modelName = model || 'claude-sonnet-4-20250514'
     this.name = `Claude ${this.modelName}`
     this.available = !!apiKey
+    this.buckets = buckets
   }
 
   async analyzeOpportunity(page: PageData, bucket: ActionBucket): Promise<ModelAnalysis> {
@@ -52,6 +56,7 @@ export class ClaudeAdapter implements ModelAdapter {
       modelId: this.id,
       bucket,
       ...result.object,
+      usage: toTokenUsage(result.usage),
     }
   }
 
@@ -93,6 +98,7 @@ export class ClaudeAdapter implements ModelAdapter {
       },
       status: 'draft',
       generatedBy: this.id,
+      usage: toTokenUsage(result.usage),
     }
   }
 
@@ -115,7 +121,7 @@ export class ClaudeAdapter implements ModelAdapter {
       prompt: `Score this content against the SEO brief.\n\nBrief target keyword: "${brief.targetKeyword}"\nBucket: ${brief.bucket}\nTarget word count: ${brief.targetWordCount}\n\nContent:\n${content.slice(0, 3000)}`,
     })
 
-    return { modelId: this.id, ...result.object }
+    return { modelId: this.id, ...result.object, usage: toTokenUsage(result.usage) }
   }
 
   async generateContent(brief: ContentBrief): Promise<GeneratedContent> {
@@ -138,11 +144,12 @@ export class ClaudeAdapter implements ModelAdapter {
       title: brief.titleRecommendations[0] || brief.targetKeyword,
       metaDescription: brief.metaDescription,
       h2Sections: brief.h2Additions,
+      usage: toTokenUsage(result.usage),
     }
   }
 
   private buildAnalysisPrompt(page: PageData, bucket: ActionBucket): string {
-    const instructions = BUCKET_INSTRUCTIONS[bucket]
+    const instructions = getBucketInstructions(bucket, this.buckets)
     return `Analyze this SEO opportunity and provide recommendations.
 
 URL: ${page.url}
@@ -162,7 +169,7 @@ Analyze the opportunity. Rate confidence (0-1) and priority (0-1). Provide speci
   }
 
   private buildBriefPrompt(page: PageData, bucket: ActionBucket, context?: BusinessContext): string {
-    const instructions = BUCKET_INSTRUCTIONS[bucket]
+    const instructions = getBucketInstructions(bucket, this.buckets)
     let prompt = `Generate an SEO content brief for this page.
 
 URL: ${page.url}
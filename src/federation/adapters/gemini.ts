@@ -11,7 +11,9 @@ import type {
   ContentScore,
   GeneratedContent,
 } from '../types.js'
-import { BUCKET_INSTRUCTIONS } from '../../core/constants.js'
+import { getBucketInstructions } from '../../core/constants.js'
+import type { BucketRegistry } from '../../core/buckets.js'
+import { toTokenUsage } from '../cost.js'
 
 export class GeminiAdapter implements ModelAdapter {
   id: ModelId = 'gemini'
@@ -21,12 +23,14 @@ export class GeminiAdapter implements ModelAdapter {
 
   private apiKey: string
   private modelName: string
+  private buckets?: BucketRegistry
 
-  constructor(apiKey: string, model?: string) {
+  constructor(apiKey: string, model?: string, buckets?: BucketRegistry) {
     this.apiKey = apiKey
     this.modelName = model || 'gemini-2.0-flash'
     this.name = `Gemini ${this.modelName}`
     this.available = !!apiKey
+    this.buckets = buckets
   }
 
   async analyzeOpportunity(page: PageData, bucket: ActionBucket): Promise<ModelAnalysis> {
@@ -48,7 +52,7 @@ export class GeminiAdapter implements ModelAdapter {
       prompt: this.buildAnalysisPrompt(page, bucket),
     })
 
-    return { modelId: this.id, bucket, ...result.object }
+    return { modelId: this.id, bucket, ...result.object, usage: toTokenUsage(result.usage) }
   }
 
   async generateBrief(page: PageData, bucket: ActionBucket, context?: BusinessContext): Promise<ContentBrief> {
@@ -89,6 +93,7 @@ export class GeminiAdapter implements ModelAdapter {
       },
       status: 'draft',
       generatedBy: this.id,
+      usage: toTokenUsage(result.usage),
     }
   }
 
@@ -111,7 +116,7 @@ export class GeminiAdapter implements ModelAdapter {
       prompt: `Score this content against the SEO brief.\n\nKeyword: "${brief.targetKeyword}"\nBucket: ${brief.bucket}\nTarget words: ${brief.targetWordCount}\n\nContent:\n${content.slice(0, 3000)}`,
     })
 
-    return { modelId: this.id, ...result.object }
+    return { modelId: this.id, ...result.object, usage: toTokenUsage(result.usage) }
   }
 
   async generateContent(brief: ContentBrief): Promise<GeneratedContent> {
@@ -134,16 +139,17 @@ export class GeminiAdapter implements ModelAdapter {
       title: brief.titleRecommendations[0] || brief.targetKeyword,
       metaDescription: brief.metaDescription,
       h2Sections: brief.h2Additions,
+      usage: toTokenUsage(result.usage),
     }
   }
 
   private buildAnalysisPrompt(page: PageData, bucket: ActionBucket): string {
-    const instructions = BUCKET_INSTRUCTIONS[bucket]
+    const instructions = getBucketInstructions(bucket, this.buckets)
     return `Analyze this SEO opportunity.\n\nURL: ${page.url}\nKeyword: "${page.primaryKeyword}"\nPosition: ${page.position} | Impressions: ${page.impressions} | CTR: ${(page.ctr * 100).toFixed(2)}%\nClicks: ${page.clicks} | Intent: ${page.intent} | Freshness: ${page.freshnessScore}\n\nBucket: ${bucket}\nStrategy: ${instructions.instruction}\n\nProvide confidence, priority, recommendations, insights, and actions.`
   }
 
   private buildBriefPrompt(page: PageData, bucket: ActionBucket, context?: BusinessContext): string {
-    const instructions = BUCKET_INSTRUCTIONS[bucket]
+    const instructions = getBucketInstructions(bucket, this.buckets)
     let prompt = `Generate SEO content brief.\n\nURL: ${page.url}\nKeyword: "${page.primaryKeyword}"\nPosition: ${page.position} | Impressions: ${page.impressions} | CTR: ${(page.ctr * 100).toFixed(2)}%\nIntent: ${page.intent}\n\nBucket: ${bucket}\nStrategy: ${instructions.instruction}\n`
 
     if (context?.industry) prompt += `\nIndustry: ${context.industry}`
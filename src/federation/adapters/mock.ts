@@ -0,0 +1,241 @@
+// ============================================================
+// cr0n-engine — Mock Adapter
+// Deterministic offline adapter: scripted or seeded-random outputs
+// No network, no API keys
+// ============================================================
+
+import type { ModelId, PageData, ActionBucket, ContentBrief, TokenUsage } from '../../core/types.js'
+import type {
+  ModelAdapter,
+  ModelAnalysis,
+  BusinessContext,
+  ContentScore,
+  GeneratedContent,
+} from '../types.js'
+import { getBucketInstructions, SCHEMA_STACKS } from '../../core/constants.js'
+import { BriefGenerator } from '../../briefs/generator.js'
+import type { BucketRegistry } from '../../core/buckets.js'
+import { createRandom, hashString } from '../../core/random.js'
+
+export type MockMethod = 'analyzeOpportunity' | 'generateBrief' | 'scoreContent' | 'generateContent'
+
+/**
+ * A scripted response: a fixed list (cycled in call order) or a function of the call
+ */
+export type MockScript<TArgs extends unknown[], TResult> =
+  | TResult[]
+  | ((...args: [...TArgs, number]) => TResult | Promise<TResult>)
+
+export interface MockAdapterOptions {
+  id?: ModelId                    // Default 'mock'
+  name?: string
+  provider?: string               // Default 'mock'
+  seed?: number                   // Seed for generated outputs, default 1
+  latencyMs?: number              // Simulated response time
+  usage?: Partial<TokenUsage>     // Reported per call, default 400 in / 200 out
+  buckets?: BucketRegistry        // Custom buckets to write briefs for
+
+  // Scripted overrides — merged over the seeded output
+  briefs?: MockScript<[PageData, ActionBucket], Partial<ContentBrief>>
+  analyses?: MockScript<[PageData, ActionBucket], Partial<ModelAnalysis>>
+  scores?: MockScript<[string, ContentBrief], Partial<ContentScore>>
+  contents?: MockScript<[ContentBrief], Partial<GeneratedContent>>
+
+  /** Throw from a call, e.g. to simulate provider outages */
+  failWith?: (method: MockMethod, callIndex: number) => Error | undefined
+}
+
+export interface MockCall {
+  method: MockMethod
+  args: unknown[]
+}
+
+const H2_POOL = [
+  'Frequently Asked Questions',
+  'How It Works',
+  'Pricing and Costs',
+  'Common Mistakes to Avoid',
+  'Step-by-Step Guide',
+  'Benefits and Results',
+  'Comparison With Alternatives',
+  'Expert Tips',
+  'Case Study',
+  'Latest Trends and Statistics',
+]
+
+function pickSome<T>(items: readonly T[], count: number, random: () => number): T[] {
+  const pool = [...items]
+  const picked: T[] = []
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0])
+  }
+  return picked
+}
+
+export class MockAdapter implements ModelAdapter {
+  id: ModelId
+  name: string
+  provider: string
+  available = true
+
+  /** Every call made to this adapter, in order */
+  readonly calls: MockCall[] = []
+
+  private options: MockAdapterOptions
+  private seed: number
+  private usage: TokenUsage
+  private briefGenerator: BriefGenerator
+  private callCounts: Record<MockMethod, number> = {
+    analyzeOpportunity: 0,
+    generateBrief: 0,
+    scoreContent: 0,
+    generateContent: 0,
+  }
+
+  constructor(options: MockAdapterOptions = {}) {
+    this.options = options
+    this.id = options.id || 'mock'
+    this.name = options.name || `Mock ${this.id}`
+    this.provider = options.provider || 'mock'
+    this.seed = options.seed ?? 1
+    this.briefGenerator = new BriefGenerator(options.buckets)
+
+    const inputTokens = options.usage?.inputTokens ?? 400
+    const outputTokens = options.usage?.outputTokens ?? 200
+    this.usage = {
+      inputTokens,
+      outputTokens,
+      totalTokens: options.usage?.totalTokens ?? inputTokens + outputTokens,
+    }
+  }
+
+  async analyzeOpportunity(page: PageData, bucket: ActionBucket): Promise<ModelAnalysis> {
+    const callIndex = await this.beginCall('analyzeOpportunity', [page, bucket])
+    const random = this.randomFor('analyzeOpportunity', page.url, bucket)
+    const instructions = getBucketInstructions(bucket, this.options.buckets)
+
+    const generated: ModelAnalysis = {
+      modelId: this.id,
+      bucket,
+      confidence: Math.round((0.5 + random() * 0.5) * 100) / 100,
+      priorityScore: Math.round(random() * 100) / 100,
+      recommendations: pickSome(instructions.tasks, 3, random),
+      keyInsights: [`${page.primaryKeyword} ranks at position ${page.position.toFixed(1)}`],
+      suggestedActions: [instructions.priorityAction],
+      usage: { ...this.usage },
+    }
+
+    const scripted = await this.script(this.options.analyses, [page, bucket], callIndex)
+    return { ...generated, ...scripted, modelId: this.id, bucket }
+  }
+
+  async generateBrief(page: PageData, bucket: ActionBucket, context?: BusinessContext): Promise<ContentBrief> {
+    const callIndex = await this.beginCall('generateBrief', [page, bucket, context])
+    const random = this.randomFor('generateBrief', page.url, bucket)
+    const base = this.briefGenerator.generate(page, bucket)
+
+    const generated: ContentBrief = {
+      ...base,
+      targetWordCount: Math.round(base.targetWordCount * (0.8 + random() * 0.4)),
+      h2Additions: [
+        ...pickSome(base.h2Additions, Math.max(1, base.h2Additions.length - 1), random),
+        ...pickSome(H2_POOL, 2, random),
+      ],
+      priorityTasks: pickSome(base.priorityTasks, 4, random),
+      schemaStack: [...SCHEMA_STACKS.base, ...pickSome(SCHEMA_STACKS[page.intent], 2, random)],
+      internalLinks: [],
+      generatedBy: this.id,
+      usage: { ...this.usage },
+    }
+
+    const scripted = await this.script(this.options.briefs, [page, bucket], callIndex)
+    return { ...generated, ...scripted }
+  }
+
+  async scoreContent(content: string, brief: ContentBrief): Promise<ContentScore> {
+    const callIndex = await this.beginCall('scoreContent', [content, brief])
+    const random = this.randomFor('scoreContent', brief.url, brief.bucket, String(hashString(content)))
+    const score = () => Math.round(50 + random() * 50)
+
+    const generated: ContentScore = {
+      modelId: this.id,
+      overall: score(),
+      relevance: score(),
+      readability: score(),
+      seoAlignment: score(),
+      suggestions: pickSome(brief.priorityTasks, 2, random),
+      usage: { ...this.usage },
+    }
+
+    const scripted = await this.script(this.options.scores, [content, brief], callIndex)
+    return { ...generated, ...scripted, modelId: this.id }
+  }
+
+  async generateContent(brief: ContentBrief): Promise<GeneratedContent> {
+    const callIndex = await this.beginCall('generateContent', [brief])
+
+    const sections = brief.h2Additions.map(h2 =>
+      `## ${h2}\n\n${brief.targetKeyword} — placeholder section generated by ${this.id}.`
+    )
+    const content = [`# ${brief.h1Recommendation}`, ...sections].join('\n\n')
+
+    const generated: GeneratedContent = {
+      modelId: this.id,
+      content,
+      wordCount: content.split(/\s+/).length,
+      title: brief.titleRecommendations[0] || brief.targetKeyword,
+      metaDescription: brief.metaDescription,
+      h2Sections: brief.h2Additions,
+      usage: { ...this.usage },
+    }
+
+    const scripted = await this.script(this.options.contents, [brief], callIndex)
+    return { ...generated, ...scripted, modelId: this.id }
+  }
+
+  /**
+   * Clear recorded calls and scripted call counters
+   */
+  reset(): void {
+    this.calls.length = 0
+    for (const method of Object.keys(this.callCounts) as MockMethod[]) {
+      this.callCounts[method] = 0
+    }
+  }
+
+  private async beginCall(method: MockMethod, args: unknown[]): Promise<number> {
+    const callIndex = this.callCounts[method]++
+    this.calls.push({ method, args })
+
+    if (this.options.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs))
+    }
+
+    const error = this.options.failWith?.(method, callIndex)
+    if (error) throw error
+
+    return callIndex
+  }
+
+  /**
+   * Seed depends on the input, not call order — concurrent runs stay reproducible
+   */
+  private randomFor(method: MockMethod, ...parts: string[]): () => number {
+    return createRandom(this.seed ^ hashString([this.id, method, ...parts].join('|')))
+  }
+
+  private async script<TArgs extends unknown[], TResult>(
+    script: MockScript<TArgs, TResult> | undefined,
+    args: TArgs,
+    callIndex: number
+  ): Promise<TResult | undefined> {
+    if (!script) return undefined
+    if (typeof script === 'function') return script(...args, callIndex)
+    if (script.length === 0) return undefined
+    return script[callIndex % script.length]
+  }
+}
+
+export function createMockAdapter(options?: MockAdapterOptions): MockAdapter {
+  return new MockAdapter(options)
+}
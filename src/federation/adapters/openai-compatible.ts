@@ -0,0 +1,183 @@
+// ============================================================
+// cr0n-engine — OpenAI-Compatible Adapter
+// Any local or self-hosted OpenAI-compatible server
+// (Ollama, vLLM, LM Studio, internal gateways)
+// ============================================================
+
+import type { ModelId, PageData, ActionBucket, ContentBrief } from '../../core/types.js'
+import type {
+  ModelAdapter,
+  ModelAnalysis,
+  BusinessContext,
+  ContentScore,
+  GeneratedContent,
+} from '../types.js'
+import { getBucketInstructions } from '../../core/constants.js'
+import type { BucketRegistry } from '../../core/buckets.js'
+import { toTokenUsage } from '../cost.js'
+
+export const OPENAI_COMPATIBLE_ID = 'openai-compatible'
+
+export interface OpenAICompatibleOptions {
+  baseURL: string                    // e.g. http://localhost:11434/v1
+  model: string                      // e.g. llama3.1:8b
+  id?: ModelId                       // Default 'openai-compatible'
+  name?: string                      // Display name
+  apiKey?: string                    // Most local servers need none
+  headers?: Record<string, string>
+  buckets?: BucketRegistry           // Custom buckets' prompt instructions
+}
+
+export class OpenAICompatibleAdapter implements ModelAdapter {
+  id: ModelId
+  name: string
+  provider = 'openai-compatible'
+  available: boolean
+
+  private apiKey: string | undefined
+  private modelName: string
+  private baseURL: string
+  private headers: Record<string, string> | undefined
+  private buckets?: BucketRegistry
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.id = options.id || OPENAI_COMPATIBLE_ID
+    this.apiKey = options.apiKey
+    this.modelName = options.model
+    this.baseURL = options.baseURL
+    this.headers = options.headers
+    this.name = options.name || `${this.modelName} @ ${this.baseURL}`
+    this.available = !!options.baseURL && !!options.model
+    this.buckets = options.buckets
+  }
+
+  private async getModel() {
+    const { createOpenAI } = await import('@ai-sdk/openai')
+
+    // The SDK refuses to build a provider without a key; local servers ignore it
+    const provider = createOpenAI({
+      apiKey: this.apiKey || 'not-needed',
+      baseURL: this.baseURL,
+      headers: this.headers,
+      name: this.id,
+    })
+
+    // Local servers implement Chat Completions, not the Responses API
+    return provider.chat(this.modelName)
+  }
+
+  async analyzeOpportunity(page: PageData, bucket: ActionBucket): Promise<ModelAnalysis> {
+    const { generateObject } = await import('ai')
+    const { z } = await import('zod')
+
+    const result = await generateObject({
+      model: await this.getModel(),
+      schema: z.object({
+        confidence: z.number().min(0).max(1),
+        priorityScore: z.number().min(0).max(1),
+        recommendations: z.array(z.string()),
+        keyInsights: z.array(z.string()),
+        suggestedActions: z.array(z.string()),
+      }),
+      prompt: this.buildAnalysisPrompt(page, bucket),
+    })
+
+    return { modelId: this.id, bucket, ...result.object, usage: toTokenUsage(result.usage) }
+  }
+
+  async generateBrief(page: PageData, bucket: ActionBucket, context?: BusinessContext): Promise<ContentBrief> {
+    const { generateObject } = await import('ai')
+    const { z } = await import('zod')
+
+    const result = await generateObject({
+      model: await this.getModel(),
+      schema: z.object({
+        titleRecommendations: z.array(z.string()).min(1).max(3),
+        h1Recommendation: z.string(),
+        metaDescription: z.string(),
+        targetWordCount: z.number(),
+        h2Additions: z.array(z.string()),
+        priorityTasks: z.array(z.string()),
+        schemaStack: z.array(z.string()),
+      }),
+      prompt: this.buildBriefPrompt(page, bucket, context),
+    })
+
+    return {
+      url: page.url,
+      targetKeyword: page.primaryKeyword,
+      bucket,
+      ...result.object,
+      internalLinks: [],
+      keywordDensityTarget: '0.6% - 1.2%',
+      mandatoryPlacements: ['First 100 words', 'One H2 exact match', 'Last 120 words'],
+      metricsSnapshot: {
+        clicks: page.clicks,
+        impressions: page.impressions,
+        ctr: page.ctr,
+        position: page.position,
+        conversions: page.conversions,
+      },
+      status: 'draft',
+      generatedBy: this.id,
+      usage: toTokenUsage(result.usage),
+    }
+  }
+
+  async scoreContent(content: string, brief: ContentBrief): Promise<ContentScore> {
+    const { generateObject } = await import('ai')
+    const { z } = await import('zod')
+
+    const result = await generateObject({
+      model: await this.getModel(),
+      schema: z.object({
+        overall: z.number().min(0).max(100),
+        relevance: z.number().min(0).max(100),
+        readability: z.number().min(0).max(100),
+        seoAlignment: z.number().min(0).max(100),
+        suggestions: z.array(z.string()),
+      }),
+      prompt: `Score this content against the SEO brief.\n\nKeyword: "${brief.targetKeyword}"\nBucket: ${brief.bucket}\nTarget words: ${brief.targetWordCount}\n\nContent:\n${content.slice(0, 3000)}`,
+    })
+
+    return { modelId: this.id, ...result.object, usage: toTokenUsage(result.usage) }
+  }
+
+  async generateContent(brief: ContentBrief): Promise<GeneratedContent> {
+    const { generateText } = await import('ai')
+
+    const result = await generateText({
+      model: await this.getModel(),
+      prompt: `Write SEO content for "${brief.targetKeyword}".\n\nBucket: ${brief.bucket}\nTarget: ${brief.targetWordCount} words\nH1: ${brief.h1Recommendation}\nH2s: ${brief.h2Additions.join(', ')}\n\nWrite in markdown.`,
+    })
+
+    const wordCount = result.text.split(/\s+/).length
+
+    return {
+      modelId: this.id,
+      content: result.text,
+      wordCount,
+      title: brief.titleRecommendations[0] || brief.targetKeyword,
+      metaDescription: brief.metaDescription,
+      h2Sections: brief.h2Additions,
+      usage: toTokenUsage(result.usage),
+    }
+  }
+
+  private buildAnalysisPrompt(page: PageData, bucket: ActionBucket): string {
+    const instructions = getBucketInstructions(bucket, this.buckets)
+    return `Analyze this SEO opportunity.\n\nURL: ${page.url}\nKeyword: "${page.primaryKeyword}"\nPosition: ${page.position} | Impressions: ${page.impressions} | CTR: ${(page.ctr * 100).toFixed(2)}%\nClicks: ${page.clicks} | Intent: ${page.intent}\n\nBucket: ${bucket}\nStrategy: ${instructions.instruction}\n\nProvide confidence, priority, recommendations, insights, and actions.`
+  }
+
+  private buildBriefPrompt(page: PageData, bucket: ActionBucket, context?: BusinessContext): string {
+    const instructions = getBucketInstructions(bucket, this.buckets)
+    let prompt = `Generate SEO content brief.\n\nURL: ${page.url}\nKeyword: "${page.primaryKeyword}"\nPosition: ${page.position} | Impressions: ${page.impressions}\nIntent: ${page.intent}\n\nBucket: ${bucket}\nStrategy: ${instructions.instruction}\n`
+
+    if (context?.industry) prompt += `\nIndustry: ${context.industry}`
+    if (context?.targetAudience) prompt += `\nAudience: ${context.targetAudience}`
+    if (context?.customInstructions) prompt += `\n${context.customInstructions}`
+
+    prompt += `\n\nGenerate titles, H2s, meta description, tasks.`
+    return prompt
+  }
+}
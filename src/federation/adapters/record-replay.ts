@@ -0,0 +1,196 @@
+// ============================================================
+// cr0n-engine — Record/Replay Adapter
+// Wraps a real adapter, captures responses to fixture files,
+// and replays them offline
+// ============================================================
+
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { ModelId, PageData, ActionBucket, ContentBrief } from '../../core/types.js'
+import type {
+  ModelAdapter,
+  ModelAnalysis,
+  BusinessContext,
+  ContentScore,
+  GeneratedContent,
+} from '../types.js'
+import type { MockMethod } from './mock.js'
+
+/**
+ * - record:      always call the inner adapter and overwrite fixtures
+ * - replay:      only read fixtures; a missing fixture is an error
+ * - auto:        replay when a fixture exists, otherwise record
+ * - passthrough: call the inner adapter, touch no fixtures
+ */
+export type RecordReplayMode = 'record' | 'replay' | 'auto' | 'passthrough'
+
+export interface RecordReplayOptions {
+  fixtureDir: string
+  mode?: RecordReplayMode     // Default 'auto'
+  id?: ModelId                // Required when replaying without an inner adapter
+}
+
+export interface Fixture<T = unknown> {
+  modelId: ModelId
+  method: MockMethod
+  key: string
+  request: Record<string, unknown>
+  response: T
+  recordedAt: string
+}
+
+export class RecordReplayAdapter implements ModelAdapter {
+  id: ModelId
+  name: string
+  provider: string
+  available: boolean
+
+  private inner: ModelAdapter | null
+  private fixtureDir: string
+  private mode: RecordReplayMode
+
+  constructor(inner: ModelAdapter | null, options: RecordReplayOptions) {
+    const id = options.id ?? inner?.id
+    if (!id) {
+      throw new Error('RecordReplayAdapter needs an inner adapter or an explicit id')
+    }
+
+    this.inner = inner
+    this.id = id
+    this.name = inner ? `${inner.name} (${options.mode ?? 'auto'})` : `Replay ${id}`
+    this.provider = inner?.provider ?? 'replay'
+    this.fixtureDir = options.fixtureDir
+    this.mode = options.mode ?? 'auto'
+    this.available = this.mode === 'replay' || (inner?.available ?? false)
+  }
+
+  analyzeOpportunity(page: PageData, bucket: ActionBucket): Promise<ModelAnalysis> {
+    return this.handle(
+      'analyzeOpportunity',
+      { ...this.describePage(page), bucket },
+      inner => inner.analyzeOpportunity(page, bucket)
+    )
+  }
+
+  generateBrief(page: PageData, bucket: ActionBucket, context?: BusinessContext): Promise<ContentBrief> {
+    return this.handle(
+      'generateBrief',
+      { ...this.describePage(page), bucket, context: context ?? null },
+      inner => inner.generateBrief(page, bucket, context)
+    )
+  }
+
+  scoreContent(content: string, brief: ContentBrief): Promise<ContentScore> {
+    return this.handle(
+      'scoreContent',
+      { ...this.describeBrief(brief), contentHash: this.hash(content) },
+      inner => inner.scoreContent(content, brief)
+    )
+  }
+
+  generateContent(brief: ContentBrief): Promise<GeneratedContent> {
+    return this.handle(
+      'generateContent',
+      this.describeBrief(brief),
+      inner => inner.generateContent(brief)
+    )
+  }
+
+  /**
+   * Path of the fixture a request maps to
+   */
+  getFixturePath(method: MockMethod, request: Record<string, unknown>): string {
+    return join(this.fixtureDir, this.id, `${method}-${this.hash(JSON.stringify(request))}.json`)
+  }
+
+  private async handle<T>(
+    method: MockMethod,
+    request: Record<string, unknown>,
+    call: (inner: ModelAdapter) => Promise<T>
+  ): Promise<T> {
+    if (this.mode === 'passthrough') {
+      return call(this.requireInner(method))
+    }
+
+    const path = this.getFixturePath(method, request)
+
+    if (this.mode === 'replay' || this.mode === 'auto') {
+      const fixture = await this.readFixture<T>(path)
+      if (fixture) return fixture.response
+      if (this.mode === 'replay') {
+        throw new Error(`No fixture for ${this.id}.${method} at ${path}`)
+      }
+    }
+
+    const response = await call(this.requireInner(method))
+
+    const fixture: Fixture<T> = {
+      modelId: this.id,
+      method,
+      key: this.hash(JSON.stringify(request)),
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    }
+
+    await mkdir(join(this.fixtureDir, this.id), { recursive: true })
+    await writeFile(path, JSON.stringify(fixture, null, 2) + '\n', 'utf-8')
+
+    return response
+  }
+
+  private async readFixture<T>(path: string): Promise<Fixture<T> | null> {
+    try {
+      return JSON.parse(await readFile(path, 'utf-8'))
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null
+      throw new Error(`Failed to read fixture ${path}: ${err?.message || err}`)
+    }
+  }
+
+  private requireInner(method: MockMethod): ModelAdapter {
+    if (!this.inner) {
+      throw new Error(`Cannot call ${this.id}.${method} live: no inner adapter configured`)
+    }
+    return this.inner
+  }
+
+  /**
+   * Only stable inputs go into the key — timestamps like `lastUpdated`
+   * would otherwise invalidate fixtures on every run
+   */
+  private describePage(page: PageData): Record<string, unknown> {
+    return {
+      url: page.url,
+      primaryKeyword: page.primaryKeyword,
+      position: page.position,
+      impressions: page.impressions,
+      clicks: page.clicks,
+      ctr: page.ctr,
+      intent: page.intent,
+    }
+  }
+
+  private describeBrief(brief: ContentBrief): Record<string, unknown> {
+    return {
+      url: brief.url,
+      targetKeyword: brief.targetKeyword,
+      bucket: brief.bucket,
+      targetWordCount: brief.targetWordCount,
+      h1Recommendation: brief.h1Recommendation,
+      h2Additions: brief.h2Additions,
+    }
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 16)
+  }
+}
+
+export function createRecordReplayAdapter(
+  inner: ModelAdapter | null,
+  options: RecordReplayOptions
+): RecordReplayAdapter {
+  return new RecordReplayAdapter(inner, options)
+}
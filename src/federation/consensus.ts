@@ -7,6 +7,7 @@
 import type {
   ActionBucket,
   ContentBrief,
+  ModelFailure,
   ModelId,
   ModelWeights,
   PageData,
@@ -16,6 +17,24 @@ import type {
   ModelContribution,
   ModelAdapter,
 } from './types.js'
+import { toModelFailure, type FederationScheduler } from './scheduler.js'
+import type { CostTracker } from './cost.js'
+
+/**
+ * Thrown when no model produced a brief; lists why each one failed
+ */
+export class ConsensusError extends Error {
+  readonly failures: ModelFailure[]
+
+  constructor(failures: ModelFailure[]) {
+    super(
+      `All model adapters failed to generate briefs: ` +
+      failures.map(f => `${f.modelId} (${f.error})`).join(', ')
+    )
+    this.name = 'ConsensusError'
+    this.failures = failures
+  }
+}
 
 export class ConsensusEngine {
   private consensusThreshold: number
@@ -25,19 +44,35 @@ export class ConsensusEngine {
   }
 
   /**
-   * Fan out brief generation to multiple models, aggregate results
+   * Fan out brief generation to multiple models, aggregate results.
+   * With a scheduler, each call is rate-limited, timed out and retried.
+   * With a cost tracker, every attempt is recorded and held against the
+   * budget, and attempts that might not fit fail instead of being made.
    */
   async generateConsensus(
     adapters: ModelAdapter[],
     page: PageData,
     bucket: ActionBucket,
-    modelWeights: ModelWeights
+    modelWeights: ModelWeights,
+    scheduler?: FederationScheduler,
+    costTracker?: CostTracker
   ): Promise<ConsensusResult> {
-    const bucketWeights = modelWeights[bucket]
+    const bucketWeights = modelWeights[bucket] ?? {}
+    const attempt = (adapter: ModelAdapter) => () => costTracker
+      ? costTracker.track(adapter.id, bucket, () => adapter.generateBrief(page, bucket))
+      : adapter.generateBrief(page, bucket)
+    const generate = (adapter: ModelAdapter) => scheduler
+      ? scheduler.run(adapter, attempt(adapter))
+      : attempt(adapter)()
 
     // Single adapter — no consensus needed
     if (adapters.length === 1) {
-      const brief = await adapters[0].generateBrief(page, bucket)
+      let brief: ContentBrief
+      try {
+        brief = await generate(adapters[0])
+      } catch (err) {
+        throw new ConsensusError([toModelFailure(adapters[0].id, err)])
+      }
       return {
         brief,
         confidence: 1,
@@ -46,41 +81,43 @@ export class ConsensusEngine {
           weight: bucketWeights[adapters[0].id] ?? 1,
           briefHash: this.hashBrief(brief),
           brief,
+          usage: brief.usage,
         }],
         primaryModel: adapters[0].id,
         modelOutputs: new Map([[adapters[0].id, brief]]),
         strategy: 'single',
+        failures: [],
       }
     }
 
     // Fan out to all adapters in parallel
-    const results = await Promise.allSettled(
-      adapters.map(async (adapter) => ({
-        modelId: adapter.id,
-        brief: await adapter.generateBrief(page, bucket),
-      }))
-    )
+    const results = await Promise.allSettled(adapters.map(generate))
 
-    // Collect successful results
+    // Collect successful results, record the rest
     const modelOutputs = new Map<ModelId, ContentBrief>()
     const contributions: ModelContribution[] = []
+    const failures: ModelFailure[] = []
 
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        const { modelId, brief } = result.value
-        modelOutputs.set(modelId, brief)
-        contributions.push({
-          modelId,
-          weight: bucketWeights[modelId] ?? 0,
-          briefHash: this.hashBrief(brief),
-          brief,
-        })
+    results.forEach((result, i) => {
+      const modelId = adapters[i].id
+      if (result.status === 'rejected') {
+        failures.push(toModelFailure(modelId, result.reason))
+        return
       }
-    }
 
-    // No results — should not happen but handle gracefully
+      const brief = result.value
+      modelOutputs.set(modelId, brief)
+      contributions.push({
+        modelId,
+        weight: bucketWeights[modelId] ?? 0,
+        briefHash: this.hashBrief(brief),
+        brief,
+        usage: brief.usage,
+      })
+    })
+
     if (contributions.length === 0) {
-      throw new Error('All model adapters failed to generate briefs')
+      throw new ConsensusError(failures)
     }
 
     // Single result from failures — return it directly
@@ -92,6 +129,7 @@ export class ConsensusEngine {
         primaryModel: contributions[0].modelId,
         modelOutputs,
         strategy: 'single',
+        failures,
       }
     }
 
@@ -119,6 +157,7 @@ export class ConsensusEngine {
       primaryModel,
       modelOutputs,
       strategy: confidence >= this.consensusThreshold ? 'consensus' : 'primary',
+      failures,
     }
   }
 
@@ -183,7 +222,7 @@ export class ConsensusEngine {
    */
   private mergeBriefs(
     contributions: ModelContribution[],
-    bucketWeights: Record<ModelId, number>,
+    bucketWeights: ModelWeights[ActionBucket],
     page: PageData,
     bucket: ActionBucket
   ): ContentBrief {
@@ -264,6 +303,7 @@ export class ConsensusEngine {
       internalLinks: primary.internalLinks,
       priorityTasks: uniqueTasks,
       schemaStack: uniqueSchema,
+      secondaryKeywords: primary.secondaryKeywords,
       keywordDensityTarget: primary.keywordDensityTarget,
       mandatoryPlacements: primary.mandatoryPlacements,
       metricsSnapshot: primary.metricsSnapshot,
@@ -0,0 +1,227 @@
+// ============================================================
+// cr0n-engine — Cost Tracker
+// Token usage + USD accounting per model and bucket,
+// with an optional per-cycle budget
+// ============================================================
+
+import type {
+  ActionBucket,
+  BudgetConfig,
+  CostEntry,
+  CostReport,
+  ModelId,
+  ModelPricing,
+  TokenUsage,
+} from '../core/types.js'
+import { ACTION_BUCKETS } from '../core/types.js'
+import { DEFAULT_MODEL_PRICING } from '../core/constants.js'
+
+/**
+ * Normalize an AI SDK usage object (fields may be undefined)
+ */
+export function toTokenUsage(usage?: {
+  inputTokens?: number
+  outputTokens?: number
+  totalTokens?: number
+}): TokenUsage {
+  const inputTokens = usage?.inputTokens ?? 0
+  const outputTokens = usage?.outputTokens ?? 0
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage?.totalTokens ?? inputTokens + outputTokens,
+  }
+}
+
+export function estimateCost(usage: TokenUsage, pricing?: ModelPricing): number {
+  if (!pricing) return 0
+  return (
+    (usage.inputTokens / 1_000_000) * pricing.inputPerMillion +
+    (usage.outputTokens / 1_000_000) * pricing.outputPerMillion
+  )
+}
+
+// Held for a model's call before any of its calls has been recorded
+const DEFAULT_RESERVE_TOKENS = 4000
+
+/**
+ * Thrown instead of calling a model when the call might not fit in the
+ * remaining budget
+ */
+export class BudgetExhaustedError extends Error {
+  constructor(modelId: ModelId) {
+    super(`Budget exhausted before calling ${modelId}`)
+    this.name = 'BudgetExhaustedError'
+  }
+}
+
+/**
+ * Usage reported on a failed call, e.g. an AI SDK error for output that
+ * didn't match the schema
+ */
+function getErrorUsage(err: unknown): TokenUsage | null {
+  const usage = (err as { usage?: Parameters<typeof toTokenUsage>[0] } | null)?.usage
+  return usage && typeof usage === 'object' ? toTokenUsage(usage) : null
+}
+
+function emptyEntry(): CostEntry {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 }
+}
+
+function addToEntry(entry: CostEntry, usage: TokenUsage, costUsd: number): void {
+  entry.calls++
+  entry.inputTokens += usage.inputTokens
+  entry.outputTokens += usage.outputTokens
+  entry.totalTokens += usage.totalTokens
+  entry.costUsd += costUsd
+}
+
+function roundEntry(entry: CostEntry): CostEntry {
+  return { ...entry, costUsd: Math.round(entry.costUsd * 1_000_000) / 1_000_000 }
+}
+
+export class CostTracker {
+  private pricing: Record<string, ModelPricing>
+  private budget: BudgetConfig | null
+  private total: CostEntry = emptyEntry()
+  private byModel = new Map<ModelId, CostEntry>()
+  private byBucket = new Map<ActionBucket, CostEntry>()
+  private fallbackTasks = 0
+  // Largest call seen per model, and what calls in flight hold against the budget
+  private largest = new Map<ModelId, { tokens: number; costUsd: number }>()
+  private reserved = { tokens: 0, costUsd: 0 }
+
+  constructor(
+    pricing?: Partial<Record<ModelId, ModelPricing>>,
+    budget?: BudgetConfig
+  ) {
+    this.pricing = { ...DEFAULT_MODEL_PRICING }
+    for (const [id, price] of Object.entries(pricing ?? {})) {
+      if (price) this.pricing[id] = price
+    }
+    this.budget = budget ?? null
+  }
+
+  /**
+   * Record one model call. Models without a price (e.g. local servers)
+   * count toward the token budget but cost nothing.
+   */
+  record(modelId: ModelId, bucket: ActionBucket, usage: TokenUsage): number {
+    const costUsd = estimateCost(usage, this.pricing[modelId])
+
+    addToEntry(this.total, usage, costUsd)
+
+    if (!this.byModel.has(modelId)) this.byModel.set(modelId, emptyEntry())
+    addToEntry(this.byModel.get(modelId)!, usage, costUsd)
+
+    if (!this.byBucket.has(bucket)) this.byBucket.set(bucket, emptyEntry())
+    addToEntry(this.byBucket.get(bucket)!, usage, costUsd)
+
+    const largest = this.largest.get(modelId)
+    this.largest.set(modelId, {
+      tokens: Math.max(largest?.tokens ?? 0, usage.totalTokens),
+      costUsd: Math.max(largest?.costUsd ?? 0, costUsd),
+    })
+
+    return costUsd
+  }
+
+  /**
+   * Run one model call against the budget. The call holds the model's
+   * largest recorded call (or `reserveTokens` before its first) until it
+   * settles, and isn't made when that doesn't fit beside what is spent
+   * and held already. Usage is recorded for failed calls too, whenever
+   * the error reports it. Wrap each attempt, so retries are charged.
+   */
+  async track<T extends { usage?: TokenUsage }>(
+    modelId: ModelId,
+    bucket: ActionBucket,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const hold = this.getReservation(modelId)
+    if (!this.fits(hold)) throw new BudgetExhaustedError(modelId)
+
+    this.reserved.tokens += hold.tokens
+    this.reserved.costUsd += hold.costUsd
+    try {
+      const result = await call()
+      this.record(modelId, bucket, result.usage ?? toTokenUsage())
+      return result
+    } catch (err) {
+      const usage = getErrorUsage(err)
+      if (usage) this.record(modelId, bucket, usage)
+      throw err
+    } finally {
+      this.reserved.tokens -= hold.tokens
+      this.reserved.costUsd -= hold.costUsd
+    }
+  }
+
+  private getReservation(modelId: ModelId): { tokens: number; costUsd: number } {
+    const largest = this.largest.get(modelId)
+    if (largest) return { ...largest }
+
+    const tokens = this.budget?.reserveTokens ?? DEFAULT_RESERVE_TOKENS
+    const half = Math.ceil(tokens / 2)
+    return {
+      tokens,
+      costUsd: estimateCost({ inputTokens: half, outputTokens: half, totalTokens: tokens }, this.pricing[modelId]),
+    }
+  }
+
+  private fits(hold: { tokens: number; costUsd: number }): boolean {
+    if (!this.budget) return true
+    const { maxCostUsd, maxTokens } = this.budget
+    if (maxCostUsd !== undefined && this.total.costUsd + this.reserved.costUsd + hold.costUsd > maxCostUsd) {
+      return false
+    }
+    if (maxTokens !== undefined && this.total.totalTokens + this.reserved.tokens + hold.tokens > maxTokens) {
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Count a task that kept its local brief because the budget ran out
+   */
+  recordFallback(): void {
+    this.fallbackTasks++
+  }
+
+  isExhausted(): boolean {
+    if (!this.budget) return false
+    const { maxCostUsd, maxTokens } = this.budget
+    if (maxCostUsd !== undefined && this.total.costUsd >= maxCostUsd) return true
+    if (maxTokens !== undefined && this.total.totalTokens >= maxTokens) return true
+    return false
+  }
+
+  getReport(): CostReport {
+    const byModel: Record<string, CostEntry> = {}
+    for (const [id, entry] of this.byModel) {
+      byModel[id] = roundEntry(entry)
+    }
+
+    const byBucket = {} as Record<ActionBucket, CostEntry>
+    // Built-ins always, custom buckets once they have spent
+    for (const bucket of new Set([...ACTION_BUCKETS, ...this.byBucket.keys()])) {
+      byBucket[bucket] = roundEntry(this.byBucket.get(bucket) ?? emptyEntry())
+    }
+
+    return {
+      total: roundEntry(this.total),
+      byModel,
+      byBucket,
+      budget: this.budget ? { ...this.budget } : null,
+      budgetExhausted: this.isExhausted(),
+      fallbackTasks: this.fallbackTasks,
+    }
+  }
+}
+
+export function createCostTracker(
+  pricing?: Partial<Record<ModelId, ModelPricing>>,
+  budget?: BudgetConfig
+): CostTracker {
+  return new CostTracker(pricing, budget)
+}
@@ -8,23 +8,92 @@ import type {
   ModelId,
   ModelWeights,
   ModelStats,
-  ACTION_BUCKETS,
-  MODEL_IDS,
 } from '../core/types.js'
-import { DEFAULT_MODEL_WEIGHTS } from '../core/constants.js'
+import { MODEL_IDS } from '../core/types.js'
+import { createEqualModelWeights } from '../core/constants.js'
+
+/**
+ * Collect every model ID that appears in any bucket
+ */
+function modelIdsFromWeights(weights: Partial<ModelWeights>): ModelId[] {
+  const ids = new Set<ModelId>()
+  for (const bucketWeights of Object.values(weights)) {
+    if (!bucketWeights) continue
+    for (const id of Object.keys(bucketWeights)) ids.add(id)
+  }
+  return Array.from(ids)
+}
 
 export class ModelWeightManager {
   private weights: ModelWeights
+  private modelIds: ModelId[]
+
+  /**
+   * @param weights  Saved weights to start from (missing buckets start equal,
+   *                 custom ones when first used)
+   * @param modelIds Models to track; defaults to the models present in `weights`,
+   *                 or the built-in models when no weights are given
+   */
+  constructor(weights?: Partial<ModelWeights>, modelIds?: ModelId[]) {
+    const fromWeights = weights ? modelIdsFromWeights(weights) : []
+    this.modelIds = modelIds ?? (fromWeights.length > 0 ? fromWeights : [...MODEL_IDS])
+    this.weights = createEqualModelWeights(this.modelIds)
 
-  constructor(weights?: Partial<ModelWeights>) {
-    this.weights = { ...DEFAULT_MODEL_WEIGHTS }
     if (weights) {
-      for (const bucket of Object.keys(this.weights) as ActionBucket[]) {
-        if (weights[bucket]) {
-          this.weights[bucket] = { ...this.weights[bucket], ...weights[bucket] }
+      for (const [bucket, bucketWeights] of Object.entries(weights)) {
+        if (bucketWeights) {
+          this.weights[bucket] = { ...bucketWeights }
         }
       }
     }
+
+    this.ensureModels(this.modelIds)
+  }
+
+  /**
+   * Give every listed model a place in every bucket.
+   * Newcomers start with an equal share; the bucket is then renormalized.
+   */
+  ensureModels(modelIds: ModelId[]): void {
+    for (const id of modelIds) {
+      if (!this.modelIds.includes(id)) this.modelIds.push(id)
+    }
+
+    for (const bucket of Object.keys(this.weights) as ActionBucket[]) {
+      const bucketWeights = this.weights[bucket]
+      const missing = modelIds.filter(id => bucketWeights[id] === undefined)
+      if (missing.length === 0) continue
+
+      const share = 1 / (Object.keys(bucketWeights).length + missing.length)
+      for (const id of missing) {
+        bucketWeights[id] = share
+      }
+      this.normalizeBucket(bucket)
+    }
+  }
+
+  /**
+   * Give each listed bucket equal weights if it has none yet
+   */
+  ensureBuckets(buckets: ActionBucket[]): void {
+    for (const bucket of buckets) this.getBucket(bucket)
+  }
+
+  /**
+   * A bucket's weights, equal over the tracked models until it has its own
+   */
+  private getBucket(bucket: ActionBucket): Record<ModelId, number> {
+    if (!this.weights[bucket]) {
+      this.weights[bucket] = createEqualModelWeights(this.modelIds, [bucket])[bucket]
+    }
+    return this.weights[bucket]
+  }
+
+  /**
+   * Get the models currently tracked
+   */
+  getModelIds(): ModelId[] {
+    return [...this.modelIds]
   }
 
   /**
@@ -38,15 +107,15 @@ export class ModelWeightManager {
    * Get weight for a specific model in a specific bucket
    */
   getWeight(bucket: ActionBucket, modelId: ModelId): number {
-    return this.weights[bucket][modelId] ?? 0
+    return this.getBucket(bucket)[modelId] ?? 0
   }
 
   /**
    * Get the top model for a bucket
    */
   getTopModel(bucket: ActionBucket): ModelId {
-    const bucketWeights = this.weights[bucket]
-    let best: ModelId = 'claude'
+    const bucketWeights = this.getBucket(bucket)
+    let best: ModelId = this.modelIds[0]
     let bestWeight = -1
 
     for (const [id, weight] of Object.entries(bucketWeights)) {
@@ -76,9 +145,10 @@ export class ModelWeightManager {
     minWeight: number = 0.05,
     maxWeight: number = 0.60
   ): void {
-    const current = this.weights[bucket][modelId] ?? 0.25
+    const bucketWeights = this.getBucket(bucket)
+    const current = bucketWeights[modelId] ?? 1 / Math.max(this.modelIds.length, 1)
     const newValue = Math.max(minWeight, Math.min(maxWeight, current + delta))
-    this.weights[bucket][modelId] = newValue
+    bucketWeights[modelId] = newValue
 
     // Renormalize bucket to sum to 1.0
     this.normalizeBucket(bucket)
@@ -159,6 +229,6 @@ export class ModelWeightManager {
    * Reset to defaults
    */
   reset(): void {
-    this.weights = { ...DEFAULT_MODEL_WEIGHTS }
+    this.weights = createEqualModelWeights(this.modelIds)
   }
 }
@@ -0,0 +1,102 @@
+// ============================================================
+// cr0n-engine — Model Success Posteriors
+// Beta-Bernoulli bookkeeping for Thompson Sampling
+// ============================================================
+
+import type {
+  ActionBucket,
+  BetaPosterior,
+  ModelId,
+  ModelPosteriors,
+} from '../core/types.js'
+import { ACTION_BUCKETS } from '../core/types.js'
+import { sampleBeta } from '../core/random.js'
+
+/** Beta(1, 1) — uniform prior, nothing observed yet */
+export const UNIFORM_PRIOR: BetaPosterior = { alpha: 1, beta: 1 }
+
+/**
+ * Uniform priors for every model in each of `buckets`. Buckets left out
+ * read as uniform until their first outcome.
+ */
+export function createUniformPosteriors(
+  modelIds: readonly ModelId[],
+  buckets: readonly ActionBucket[] = ACTION_BUCKETS
+): ModelPosteriors {
+  const posteriors = {} as ModelPosteriors
+  for (const bucket of buckets) {
+    posteriors[bucket] = {}
+    for (const id of modelIds) {
+      posteriors[bucket][id] = { ...UNIFORM_PRIOR }
+    }
+  }
+  return posteriors
+}
+
+/**
+ * Merge saved posteriors over uniform priors for the given models
+ */
+export function resolvePosteriors(
+  modelIds: readonly ModelId[],
+  saved?: Partial<ModelPosteriors>
+): ModelPosteriors {
+  const posteriors = createUniformPosteriors(modelIds)
+  if (!saved) return posteriors
+
+  for (const [bucket, savedBucket] of Object.entries(saved)) {
+    if (!savedBucket) continue
+    posteriors[bucket] ??= {}
+    for (const [id, posterior] of Object.entries(savedBucket)) {
+      posteriors[bucket][id] = { alpha: posterior.alpha, beta: posterior.beta }
+    }
+  }
+  return posteriors
+}
+
+export function getPosterior(
+  posteriors: ModelPosteriors,
+  bucket: ActionBucket,
+  modelId: ModelId
+): BetaPosterior {
+  return posteriors[bucket]?.[modelId] ?? UNIFORM_PRIOR
+}
+
+/**
+ * Record one observed outcome (mutates in place)
+ */
+export function updatePosterior(
+  posteriors: ModelPosteriors,
+  bucket: ActionBucket,
+  modelId: ModelId,
+  success: boolean
+): BetaPosterior {
+  const current = getPosterior(posteriors, bucket, modelId)
+  const next = success
+    ? { alpha: current.alpha + 1, beta: current.beta }
+    : { alpha: current.alpha, beta: current.beta + 1 }
+
+  if (!posteriors[bucket]) posteriors[bucket] = {}
+  posteriors[bucket][modelId] = next
+  return next
+}
+
+export function posteriorMean(posterior: BetaPosterior): number {
+  return posterior.alpha / (posterior.alpha + posterior.beta)
+}
+
+/**
+ * Draw a plausible success rate for each model
+ */
+export function samplePosteriors(
+  posteriors: ModelPosteriors,
+  bucket: ActionBucket,
+  modelIds: readonly ModelId[],
+  random: () => number = Math.random
+): Record<string, number> {
+  const samples: Record<string, number> = {}
+  for (const id of modelIds) {
+    const { alpha, beta } = getPosterior(posteriors, bucket, id)
+    samples[id] = sampleBeta(alpha, beta, random)
+  }
+  return samples
+}
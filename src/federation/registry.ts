@@ -4,48 +4,87 @@
 // ============================================================
 
 import type { ModelId, EngineConfig } from '../core/types.js'
-import type { ModelAdapter } from './types.js'
+import type { ModelAdapter, AdapterFactory } from './types.js'
+import { BucketRegistry } from '../core/buckets.js'
 import { ClaudeAdapter } from './adapters/claude.js'
 import { OpenAIAdapter } from './adapters/openai.js'
 import { GeminiAdapter } from './adapters/gemini.js'
 import { GrokAdapter } from './adapters/grok.js'
+import { OpenAICompatibleAdapter, OPENAI_COMPATIBLE_ID } from './adapters/openai-compatible.js'
+
+const BUILT_IN_FACTORIES: Array<[ModelId, AdapterFactory]> = [
+  ['claude', (config, _id, buckets) => config.apiKey ? new ClaudeAdapter(config.apiKey, config.model, buckets) : null],
+  ['openai', (config, _id, buckets) => config.apiKey ? new OpenAIAdapter(config.apiKey, config.model, buckets) : null],
+  ['gemini', (config, _id, buckets) => config.apiKey ? new GeminiAdapter(config.apiKey, config.model, buckets) : null],
+  ['grok', (config, _id, buckets) => config.apiKey
+    ? new GrokAdapter(config.apiKey, config.model, config.baseURL, buckets)
+    : null],
+  [OPENAI_COMPATIBLE_ID, (config, id, buckets) => config.baseURL && config.model
+    ? new OpenAICompatibleAdapter({
+        id,
+        baseURL: config.baseURL,
+        model: config.model,
+        apiKey: config.apiKey,
+        headers: config.headers,
+        buckets,
+      })
+    : null],
+]
 
 export class ModelRegistry {
+  private static factories: Map<ModelId, AdapterFactory> = new Map(BUILT_IN_FACTORIES)
+
   private adapters: Map<ModelId, ModelAdapter> = new Map()
 
   /**
-   * Initialize registry from engine config
+   * Register a factory so `fromConfig` can build adapters for a custom model ID.
+   * Registering an existing ID replaces its factory.
+   *
+   * @example
+   * ```ts
+   * ModelRegistry.registerAdapterFactory('llama', (config, id) =>
+   *   new MyLlamaAdapter(id, config.baseURL, config.model))
+   * ```
    */
-  static fromConfig(config: EngineConfig): ModelRegistry {
+  static registerAdapterFactory(id: ModelId, factory: AdapterFactory): void {
+    ModelRegistry.factories.set(id, factory)
+  }
+
+  static unregisterAdapterFactory(id: ModelId): void {
+    ModelRegistry.factories.delete(id)
+  }
+
+  static getAdapterFactoryIds(): ModelId[] {
+    return Array.from(ModelRegistry.factories.keys())
+  }
+
+  /**
+   * Initialize registry from engine config. Factory-built adapters get
+   * `buckets`; adapters passed in `config.adapters` bring their own.
+   * Model keys with no factory are ignored, as they always were; an
+   * explicit `adapter` with no factory is an error.
+   */
+  static fromConfig(config: EngineConfig, buckets: BucketRegistry = new BucketRegistry()): ModelRegistry {
     const registry = new ModelRegistry()
 
-    if (config.models.claude?.apiKey) {
-      registry.register(new ClaudeAdapter(
-        config.models.claude.apiKey,
-        config.models.claude.model
-      ))
-    }
+    for (const [id, modelConfig] of Object.entries(config.models)) {
+      if (!modelConfig) continue
 
-    if (config.models.openai?.apiKey) {
-      registry.register(new OpenAIAdapter(
-        config.models.openai.apiKey,
-        config.models.openai.model
-      ))
-    }
+      const factoryId = modelConfig.adapter ?? id
+      const factory = ModelRegistry.factories.get(factoryId)
+      if (!factory) {
+        if (!modelConfig.adapter) continue
+        throw new Error(`No adapter factory registered for "${factoryId}". Call ModelRegistry.registerAdapterFactory() first.`)
+      }
 
-    if (config.models.gemini?.apiKey) {
-      registry.register(new GeminiAdapter(
-        config.models.gemini.apiKey,
-        config.models.gemini.model
-      ))
+      const adapter = factory(modelConfig, id, buckets)
+      if (adapter) {
+        registry.register(adapter)
+      }
     }
 
-    if (config.models.grok?.apiKey) {
-      registry.register(new GrokAdapter(
-        config.models.grok.apiKey,
-        config.models.grok.model,
-        config.models.grok.baseURL
-      ))
+    for (const adapter of config.adapters ?? []) {
+      registry.register(adapter)
     }
 
     return registry
@@ -4,26 +4,53 @@
 // Domain-agnostic routing logic
 // ============================================================
 
-import type { ActionBucket, ModelId, ModelWeights } from '../core/types.js'
+import type {
+  ActionBucket,
+  ModelId,
+  ModelWeights,
+  ModelPosteriors,
+  RoutingConfig,
+  RoutingStrategy,
+} from '../core/types.js'
 import type { RouteDecision } from './types.js'
 import { ModelRegistry } from './registry.js'
+import { createUniformPosteriors, samplePosteriors } from './posteriors.js'
+import { createRandom } from '../core/random.js'
+
+const DEFAULT_THOMPSON_BUDGET = 2
 
 export class TaskRouter {
   private registry: ModelRegistry
   private modelWeights: ModelWeights
+  private posteriors: ModelPosteriors
+  private strategy: RoutingStrategy
+  private maxModelsPerTask: number
+  private random: () => number
 
-  constructor(registry: ModelRegistry, modelWeights: ModelWeights) {
+  constructor(
+    registry: ModelRegistry,
+    modelWeights: ModelWeights,
+    routing: RoutingConfig = {},
+    posteriors?: ModelPosteriors
+  ) {
     this.registry = registry
     this.modelWeights = modelWeights
+    this.posteriors = posteriors ?? createUniformPosteriors(registry.getAvailableIds())
+    this.strategy = routing.strategy ?? 'all'
+    this.maxModelsPerTask = routing.maxModelsPerTask
+      ?? (this.strategy === 'thompson' ? DEFAULT_THOMPSON_BUDGET : Infinity)
+    this.random = routing.seed !== undefined ? createRandom(routing.seed) : Math.random
   }
 
   /**
    * Determine which models to query for a given bucket.
-   * More available models = broader analysis.
+   * 'all' queries every available model (up to the budget), ranked by weight.
+   * 'thompson' draws a success rate per model from its Beta posterior
+   * and queries the top draws — uncertain models still get explored.
    */
   route(bucket: ActionBucket): RouteDecision {
     const availableIds = this.registry.getAvailableIds()
-    const bucketWeights = this.modelWeights[bucket]
+    const bucketWeights = this.modelWeights[bucket] ?? {}
 
     if (availableIds.length === 0) {
       throw new Error('No models available. Provide at least one API key.')
@@ -39,6 +66,22 @@ export class TaskRouter {
       }
     }
 
+    const budget = Math.max(1, this.maxModelsPerTask)
+
+    if (this.strategy === 'thompson') {
+      const samples = samplePosteriors(this.posteriors, bucket, availableIds, this.random)
+      const ranked = [...availableIds].sort((a, b) => samples[b] - samples[a])
+      const models = ranked.slice(0, budget)
+
+      return {
+        models,
+        primary: models[0],
+        strategy: 'thompson',
+        reason: `Sampled ${models.length}/${availableIds.length} models. Primary: ${models[0]} (draw ${samples[models[0]].toFixed(2)})`,
+        samples,
+      }
+    }
+
     // Sort available models by weight for this bucket (descending)
     const sorted = availableIds
       .map(id => ({ id, weight: bucketWeights[id] ?? 0 }))
@@ -46,6 +89,17 @@ export class TaskRouter {
 
     const primary = sorted[0].id
 
+    // Budget below the available count — top N by weight
+    if (budget < availableIds.length) {
+      const models = sorted.slice(0, budget).map(m => m.id)
+      return {
+        models,
+        primary,
+        strategy: 'top_n',
+        reason: `Budget of ${budget} of ${availableIds.length} models. Primary: ${primary} (${(sorted[0].weight * 100).toFixed(0)}%)`,
+      }
+    }
+
     // 2 models — use both
     if (availableIds.length === 2) {
       return {
@@ -70,7 +124,7 @@ export class TaskRouter {
    */
   getPrimaryModel(bucket: ActionBucket): ModelId {
     const available = this.registry.getAvailableIds()
-    const bucketWeights = this.modelWeights[bucket]
+    const bucketWeights = this.modelWeights[bucket] ?? {}
 
     let bestModel = available[0]
     let bestWeight = -1
@@ -92,4 +146,11 @@ export class TaskRouter {
   setModelWeights(weights: ModelWeights): void {
     this.modelWeights = weights
   }
+
+  /**
+   * Update posteriors reference
+   */
+  setPosteriors(posteriors: ModelPosteriors): void {
+    this.posteriors = posteriors
+  }
 }
@@ -0,0 +1,256 @@
+// ============================================================
+// cr0n-engine — Federation Scheduler
+// Per-provider concurrency limits, request timeouts,
+// and exponential backoff on rate limits / server errors
+// ============================================================
+
+import type { ModelFailure, ModelId, SchedulerConfig } from '../core/types.js'
+import type { ModelAdapter } from './types.js'
+import { BudgetExhaustedError } from './cost.js'
+
+const DEFAULTS = {
+  concurrency: 4,
+  defaultProviderConcurrency: 2,
+  timeoutMs: 60_000,
+  maxRetries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+}
+
+export class TimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} timed out after ${timeoutMs}ms`)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Error thrown by the scheduler once a call has exhausted its retries
+ * (or failed with a non-retryable error). Carries the attempt history.
+ */
+export class ScheduledCallError extends Error {
+  readonly modelId: ModelId
+  readonly attempts: number
+  readonly statusCode?: number
+  readonly timedOut: boolean
+
+  constructor(modelId: ModelId, cause: unknown, attempts: number) {
+    super(
+      `${modelId} failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${errorMessage(cause)}`,
+      { cause }
+    )
+    this.name = 'ScheduledCallError'
+    this.modelId = modelId
+    this.attempts = attempts
+    this.statusCode = getStatusCode(cause)
+    this.timedOut = cause instanceof TimeoutError
+  }
+}
+
+/**
+ * HTTP status from AI SDK errors (`statusCode`) or fetch-style errors (`status`)
+ */
+export function getStatusCode(err: unknown): number | undefined {
+  const e = err as { statusCode?: unknown; status?: unknown } | null
+  if (typeof e?.statusCode === 'number') return e.statusCode
+  if (typeof e?.status === 'number') return e.status
+  return undefined
+}
+
+/**
+ * Retry on timeouts, 408/429 and 5xx. Without a status code, trust the
+ * SDK's own `isRetryable` flag; anything else (bad key, schema errors) fails fast.
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof TimeoutError) return true
+  const status = getStatusCode(err)
+  if (status !== undefined) return status === 408 || status === 429 || status >= 500
+  return (err as { isRetryable?: unknown } | null)?.isRetryable === true
+}
+
+/**
+ * Normalize any thrown value into a failure record
+ */
+export function toModelFailure(modelId: ModelId, err: unknown): ModelFailure {
+  const failure: ModelFailure = err instanceof ScheduledCallError
+    ? {
+        modelId,
+        error: errorMessage(err.cause),
+        attempts: err.attempts,
+        statusCode: err.statusCode,
+        timedOut: err.timedOut,
+      }
+    : {
+        modelId,
+        error: errorMessage(err),
+        attempts: 1,
+        statusCode: getStatusCode(err),
+        timedOut: err instanceof TimeoutError,
+      }
+  const cause = err instanceof ScheduledCallError ? err.cause : err
+  if (cause instanceof BudgetExhaustedError) failure.budgetExhausted = true
+
+  return failure
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+/**
+ * Seconds from a Retry-After response header, when the provider sends one
+ */
+function getRetryAfterMs(err: unknown): number | undefined {
+  const headers = (err as { responseHeaders?: Record<string, string> } | null)?.responseHeaders
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After']
+  if (!value) return undefined
+  const seconds = Number(value)
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Counting semaphore; waiters are released in FIFO order
+ */
+class Semaphore {
+  private active = 0
+  private waiting: Array<() => void> = []
+
+  constructor(private limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++
+      return
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve))
+  }
+
+  release(): void {
+    const next = this.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      this.active--
+    }
+  }
+}
+
+export class FederationScheduler {
+  private config: typeof DEFAULTS & { providerConcurrency: Record<string, number> }
+  private providers = new Map<string, Semaphore>()
+
+  constructor(config: SchedulerConfig = {}) {
+    this.config = {
+      concurrency: config.concurrency ?? DEFAULTS.concurrency,
+      defaultProviderConcurrency: config.defaultProviderConcurrency ?? DEFAULTS.defaultProviderConcurrency,
+      timeoutMs: config.timeoutMs ?? DEFAULTS.timeoutMs,
+      maxRetries: config.maxRetries ?? DEFAULTS.maxRetries,
+      baseDelayMs: config.baseDelayMs ?? DEFAULTS.baseDelayMs,
+      maxDelayMs: config.maxDelayMs ?? DEFAULTS.maxDelayMs,
+      providerConcurrency: { ...config.providerConcurrency },
+    }
+  }
+
+  /**
+   * Run one adapter call under its provider's concurrency limit, with a
+   * timeout per attempt and backoff between retryable failures.
+   * Each request holds its provider slot until it settles — past its
+   * timeout, if need be — so abandoned requests still count against the
+   * limit. The slot is free while backing off.
+   */
+  async run<T>(adapter: ModelAdapter, call: () => Promise<T>): Promise<T> {
+    const slot = this.getProviderSemaphore(adapter.provider)
+    let attempts = 0
+
+    while (true) {
+      attempts++
+      await slot.acquire()
+      const request = new Promise<T>(resolve => resolve(call()))
+      request.then(() => slot.release(), () => slot.release())
+
+      try {
+        return await this.withTimeout(request, adapter.id)
+      } catch (err) {
+        if (attempts > this.config.maxRetries || !isRetryableError(err)) {
+          throw new ScheduledCallError(adapter.id, err, attempts)
+        }
+        await sleep(this.getDelay(attempts, err))
+      }
+    }
+  }
+
+  /**
+   * Map over items with at most `concurrency` in flight; results keep input order
+   */
+  async map<TItem, TResult>(
+    items: TItem[],
+    fn: (item: TItem, index: number) => Promise<TResult>
+  ): Promise<TResult[]> {
+    const results = new Array<TResult>(items.length)
+    let next = 0
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++
+        results[index] = await fn(items[index], index)
+      }
+    }
+
+    const workers = Math.max(1, Math.min(this.config.concurrency, items.length))
+    await Promise.all(Array.from({ length: workers }, worker))
+    return results
+  }
+
+  /**
+   * Exponential backoff with jitter (50–100% of the step), never shorter than Retry-After
+   */
+  private getDelay(attempt: number, err: unknown): number {
+    const exponential = Math.min(
+      this.config.maxDelayMs,
+      this.config.baseDelayMs * 2 ** (attempt - 1)
+    )
+    const jittered = exponential / 2 + Math.random() * (exponential / 2)
+    const retryAfter = getRetryAfterMs(err)
+    return retryAfter !== undefined
+      ? Math.min(this.config.maxDelayMs, Math.max(jittered, retryAfter))
+      : jittered
+  }
+
+  /**
+   * Adapters take no abort signal, so a timed-out request keeps running
+   * in the background — its result is simply ignored
+   */
+  private async withTimeout<T>(request: Promise<T>, label: string): Promise<T> {
+    const { timeoutMs } = this.config
+    if (!timeoutMs || timeoutMs <= 0) return request
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new TimeoutError(label, timeoutMs)), timeoutMs)
+    })
+
+    try {
+      return await Promise.race([request, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private getProviderSemaphore(provider: string): Semaphore {
+    let semaphore = this.providers.get(provider)
+    if (!semaphore) {
+      const limit = this.config.providerConcurrency[provider] ?? this.config.defaultProviderConcurrency
+      semaphore = new Semaphore(Math.max(1, limit))
+      this.providers.set(provider, semaphore)
+    }
+    return semaphore
+  }
+}
+
+export function createFederationScheduler(config?: SchedulerConfig): FederationScheduler {
+  return new FederationScheduler(config)
+}
@@ -8,7 +8,11 @@ import type {
   ActionBucket,
   ContentBrief,
   ModelId,
+  ModelConfig,
+  ModelFailure,
+  TokenUsage,
 } from '../core/types.js'
+import type { BucketRegistry } from '../core/buckets.js'
 
 // ============================================================
 // Model Adapter Interface
@@ -37,6 +41,13 @@ export interface ModelAdapter {
   generateContent(brief: ContentBrief): Promise<GeneratedContent>
 }
 
+/**
+ * Builds an adapter from its `EngineConfig.models` entry, given the
+ * engine's buckets for prompt instructions.
+ * Return null to skip the model (e.g. missing credentials).
+ */
+export type AdapterFactory = (config: ModelConfig, id: ModelId, buckets: BucketRegistry) => ModelAdapter | null
+
 // ============================================================
 // Model Analysis
 // ============================================================
@@ -50,6 +61,7 @@ export interface ModelAnalysis {
   keyInsights: string[]       // Key observations
   suggestedActions: string[]  // Specific actions to take
   metadata?: Record<string, unknown>
+  usage?: TokenUsage
 }
 
 // ============================================================
@@ -76,6 +88,7 @@ export interface ContentScore {
   readability: number         // 0-100
   seoAlignment: number        // 0-100
   suggestions: string[]
+  usage?: TokenUsage
 }
 
 // ============================================================
@@ -89,6 +102,7 @@ export interface GeneratedContent {
   title: string
   metaDescription: string
   h2Sections: string[]
+  usage?: TokenUsage
 }
 
 // ============================================================
@@ -101,6 +115,7 @@ export interface ModelContribution {
   briefHash: string           // Hash of the brief for comparison
   analysis?: ModelAnalysis
   brief?: ContentBrief
+  usage?: TokenUsage          // Tokens spent on this model's brief
 }
 
 export interface ConsensusResult {
@@ -110,6 +125,7 @@ export interface ConsensusResult {
   primaryModel: ModelId                       // Model with highest weight
   modelOutputs: Map<ModelId, ContentBrief>    // Raw outputs for comparison
   strategy: 'consensus' | 'primary' | 'single'  // How the result was derived
+  failures: ModelFailure[]                    // Models that errored, after retries
 }
 
 // ============================================================
@@ -119,6 +135,7 @@ export interface ConsensusResult {
 export interface RouteDecision {
   models: ModelId[]           // Which models to query
   primary: ModelId            // Primary model for this bucket
-  strategy: 'all' | 'top2' | 'primary_only'
+  strategy: 'all' | 'top2' | 'top_n' | 'thompson' | 'primary_only'
   reason: string
+  samples?: Record<string, number>   // Thompson draws per model, when sampled
 }
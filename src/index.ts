@@ -7,14 +7,59 @@
 // ---- Core Types & Constants (re-export everything) ----
 export type {
   PageData,
+  QueryData,
+  PageSnapshot,
+  MetricWindow,
   NormalizedScores,
   OpportunityScore,
   ActionBucket,
+  BuiltInBucket,
   BucketCriteria,
+  BucketOperator,
+  BucketRuleValue,
+  BucketCondition,
+  BucketRule,
+  BucketDefinition,
+  BucketInstructions,
+  SuccessMetric,
+  SuccessCriteria,
+  BucketCriterionCheck,
+  BucketMatch,
+  BucketClassification,
+  DecayConfig,
+  DecayTrend,
+  PageDecay,
+  CannibalizationConfig,
+  CannibalizationRole,
+  CannibalizingUrl,
+  CannibalizedQuery,
+  ConsolidationStep,
+  PageCannibalization,
+  ForecastConfig,
+  ForecastRange,
+  ForecastCalibration,
+  UpliftForecast,
+  TaskRanking,
+  BucketEffort,
+  EffortConfig,
+  TaskEffort,
+  CapacityConfig,
+  CapacitySummary,
   WeightConfig,
+  BucketWeights,
   LearningConfig,
   SavedWeights,
   WeightAdjustment,
+  WeightUpdate,
+  WeightVelocity,
+  WeightVersion,
+  WeightVersionEvaluation,
+  WeightDiff,
+  WeightChange,
+  WeightBoundHit,
+  WeightAlert,
+  DriftCap,
+  DriftGuardConfig,
   ContentBrief,
   SEOAction,
   SEOTask,
@@ -22,15 +67,43 @@ export type {
   DailyPlan,
   AnalysisRun,
   CTRCurve,
+  CTRCurvePosition,
+  CTRCurveFitOptions,
+  CTRSegment,
+  TrafficMetrics,
+  AggregatorOptions,
+  BrandedTrafficMode,
+  BrandConfig,
+  BuiltInModelId,
   ModelId,
   ModelConfig,
   ModelWeights,
+  BetaPosterior,
+  ModelPosteriors,
+  RoutingStrategy,
+  RoutingConfig,
+  TokenUsage,
+  ModelPricing,
+  BudgetConfig,
+  CostEntry,
+  CostReport,
+  SchedulerConfig,
+  ModelFailure,
+  TaskFailure,
   ModelStats,
   EngineConfig,
   CycleInput,
   CycleResult,
   BatchEvaluationResult,
   EvaluationResult,
+  EvaluationOutcome,
+  SignificanceResult,
+  SignificanceConfig,
+  ControlComparison,
+  ControlCohortConfig,
+  Annotation,
+  AnnotationType,
+  AnnotationPolicy,
   GSCPageData,
   GA4PageData,
   ContentWriterInput,
@@ -43,23 +116,50 @@ export { ACTION_BUCKETS, MODEL_IDS } from './core/types.js'
 export {
   DEFAULT_WEIGHTS,
   DEFAULT_LEARNING_CONFIG,
+  DEFAULT_DRIFT_GUARD,
   DEFAULT_MODEL_WEIGHTS,
   DEFAULT_CTR_CURVE,
+  DEFAULT_CTR_FIT,
+  DEFAULT_BRAND_CONFIG,
+  DEFAULT_CANNIBALIZATION,
+  DEFAULT_DECAY,
+  DEFAULT_FORECAST,
+  DEFAULT_EFFORT,
+  CTR_CURVE_POSITIONS,
   BUCKET_CRITERIA,
+  BUCKET_PRIORITY,
   CONTENT_RULES,
   SCHEMA_STACKS,
   LOCAL_INDICATORS,
   SUCCESS_CRITERIA,
   EVALUATION_CONFIG,
   BUCKET_INSTRUCTIONS,
+  BUCKET_CREDIT_WEIGHTS,
   DEFAULT_CONSENSUS_THRESHOLD,
   MODEL_DEFAULTS,
+  DEFAULT_MODEL_PRICING,
+  DEFAULT_SIGNIFICANCE,
+  DEFAULT_CONTROL_COHORT,
   getExpectedCTR,
+  getCTRCurvePosition,
+  getSuccessCriteria,
+  getBucketInstructions,
+  getBucketCreditWeight,
+  isKnownBucket,
+  createEqualModelWeights,
 } from './core/constants.js'
+export {
+  BucketRegistry,
+  createBucketRegistry,
+  validateBucketDefinition,
+  parseBucketDefinitions,
+  loadBucketDefinitions,
+} from './core/buckets.js'
 
 // ---- Federation Types ----
 export type {
   ModelAdapter,
+  AdapterFactory,
   ModelAnalysis,
   BusinessContext,
   ContentScore,
@@ -69,26 +169,133 @@ export type {
   RouteDecision,
 } from './federation/types.js'
 
+// ---- State Types ----
+export type {
+  StateStore,
+  StateSnapshot,
+  StateCommit,
+  StateStoreLimits,
+} from './state/types.js'
+
 // ---- Engine Components (for advanced usage) ----
-export { OpportunityScorer, createScorer, calculateOpportunityScore, sortByOpportunity } from './engine/scorer.js'
-export { ActionBucketer, createBucketer, classifyBucket, getBucketDistribution } from './engine/bucketer.js'
+export {
+  OpportunityScorer,
+  createScorer,
+  calculateOpportunityScore,
+  sortByOpportunity,
+  cloneBucketWeights,
+} from './engine/scorer.js'
+export {
+  ActionBucketer,
+  createBucketer,
+  classifyBucket,
+  getBucketDistribution,
+  resolveBucketPriority,
+  describeBucketMatch,
+} from './engine/bucketer.js'
+export { evaluateBucketRule, checkValue, getPageField, getBuiltInBucketRules } from './engine/bucket-rules.js'
+export type { FieldResolver } from './engine/bucket-rules.js'
 export { SEOAnalyzer, createAnalyzer, quickAnalyze, generateDailyPlan } from './engine/analyzer.js'
+export { UpliftForecaster, createForecaster, sortByExpectedValue } from './engine/forecaster.js'
+export { CapacityPlanner, createCapacityPlanner, resolveEffortConfig, getTaskValue } from './engine/planner.js'
+export { fitCTRCurve, getPageExpectedCTR, withoutBrandedTraffic } from './engine/ctr-curve.js'
 export { BriefGenerator, createBriefGenerator, generateBrief } from './briefs/generator.js'
 export { ContentWriterBridge, createContentWriterBridge, formatBriefForContentWriter } from './briefs/bridge.js'
-export { WeightAdjuster, createWeightAdjuster, evaluateAction } from './learning/weight-adjuster.js'
-export { OutcomeEvaluator, createOutcomeEvaluator, isActionReadyForEvaluation } from './learning/outcome-evaluator.js'
+export { WeightAdjuster, createWeightAdjuster } from './learning/weight-adjuster.js'
+export {
+  OutcomeEvaluator,
+  createOutcomeEvaluator,
+  evaluateAction,
+  isActionReadyForEvaluation,
+} from './learning/outcome-evaluator.js'
+export type { OutcomeEvaluatorConfig } from './learning/outcome-evaluator.js'
+export {
+  proportionTest,
+  poissonRateTest,
+  welchTTest,
+  normalCdf,
+} from './learning/significance.js'
+export type { TestResult } from './learning/significance.js'
+export { ControlCohortSelector, createControlCohortSelector } from './learning/control-cohort.js'
+export type { ControlCohort } from './learning/control-cohort.js'
 export { ModelAdjuster, createModelAdjuster } from './learning/model-adjuster.js'
-export { DataAggregator, createAggregator, aggregateData } from './data/aggregator.js'
+export { WeightLedger, createWeightLedger, diffWeightVersions } from './learning/weight-ledger.js'
+export { DriftGuard, createDriftGuard } from './learning/drift-guard.js'
+export {
+  DataAggregator,
+  createAggregator,
+  aggregateData,
+  isBrandedQuery,
+  tagBrandedTraffic,
+} from './data/aggregator.js'
+export { detectCannibalization, tagCannibalization } from './data/cannibalization.js'
+export { fitDecayTrend, detectDecay, tagDecay } from './data/decay.js'
+export {
+  SnapshotHistory,
+  createSnapshotHistory,
+  aggregateWindow,
+  toSnapshot,
+  toDateKey,
+  addDays,
+} from './data/history.js'
+export {
+  parseGSCPagesCsv,
+  parseGSCQueriesCsv,
+  parseGSCPerformanceZip,
+  importGSCPerformance,
+  parseGSCBigQueryRows,
+  parseGSCBigQueryJsonl,
+  importGSCBigQuery,
+} from './data/importers/gsc.js'
+export type {
+  GSCPerformanceOptions,
+  GSCPerformanceExport,
+  GSCBigQueryOptions,
+  GSCBigQueryRow,
+} from './data/importers/gsc.js'
+export { parseGA4PagesCsv, importGA4Pages } from './data/importers/ga4.js'
+export {
+  AnnotationCalendar,
+  createAnnotationCalendar,
+  parseAnnotations,
+  loadAnnotations,
+} from './data/annotations.js'
 export { ModelRegistry } from './federation/registry.js'
 export { TaskRouter } from './federation/router.js'
-export { ConsensusEngine } from './federation/consensus.js'
+export { ConsensusEngine, ConsensusError } from './federation/consensus.js'
+export {
+  FederationScheduler,
+  createFederationScheduler,
+  ScheduledCallError,
+  TimeoutError,
+  isRetryableError,
+} from './federation/scheduler.js'
 export { ModelWeightManager } from './federation/model-weights.js'
+export { CostTracker, createCostTracker, estimateCost, toTokenUsage, BudgetExhaustedError } from './federation/cost.js'
+export {
+  createUniformPosteriors,
+  resolvePosteriors,
+  updatePosterior,
+  posteriorMean,
+  samplePosteriors,
+} from './federation/posteriors.js'
+
+// ---- State Stores ----
+export { MemoryStateStore, createMemoryStateStore, mergeSnapshots } from './state/memory-store.js'
+export { FileStateStore, createFileStateStore, DEFAULT_STATE_DIR } from './state/file-store.js'
+export type { FileStateStoreOptions } from './state/file-store.js'
 
 // ---- Adapters ----
 export { ClaudeAdapter } from './federation/adapters/claude.js'
 export { OpenAIAdapter } from './federation/adapters/openai.js'
 export { GeminiAdapter } from './federation/adapters/gemini.js'
 export { GrokAdapter } from './federation/adapters/grok.js'
+export { OpenAICompatibleAdapter, OPENAI_COMPATIBLE_ID } from './federation/adapters/openai-compatible.js'
+export type { OpenAICompatibleOptions } from './federation/adapters/openai-compatible.js'
+export { MockAdapter, createMockAdapter } from './federation/adapters/mock.js'
+export type { MockAdapterOptions, MockScript, MockMethod, MockCall } from './federation/adapters/mock.js'
+export { RecordReplayAdapter, createRecordReplayAdapter } from './federation/adapters/record-replay.js'
+export type { RecordReplayMode, RecordReplayOptions, Fixture } from './federation/adapters/record-replay.js'
 
 // ---- Config ----
 export { resolveConfig } from './core/config.js'
@@ -107,7 +314,12 @@ import type {
   CycleInput,
   CycleResult,
   WeightConfig,
+  BucketWeights,
+  CTRCurve,
+  CTRCurveFitOptions,
+  BrandedTrafficMode,
   ModelWeights,
+  ModelPosteriors,
   ModelStats,
   ModelId,
   LearningLog,
@@ -116,16 +328,39 @@ import type {
   PageData,
   ActionBucket,
   ContentBrief,
+  WeightAdjustment,
+  WeightUpdate,
+  WeightVelocity,
+  WeightVersion,
+  WeightDiff,
+  WeightBoundHit,
+  DriftCap,
+  TaskFailure,
 } from './core/types.js'
 import { resolveConfig } from './core/config.js'
+import { BucketRegistry } from './core/buckets.js'
+import { mergeActions } from './state/memory-store.js'
+import { SnapshotHistory, toDateKey } from './data/history.js'
+import { tagBrandedTraffic } from './data/aggregator.js'
+import { tagCannibalization } from './data/cannibalization.js'
+import { tagDecay } from './data/decay.js'
+import { createForecaster } from './engine/forecaster.js'
+import { createBriefGenerator } from './briefs/generator.js'
 import { SEOAnalyzer } from './engine/analyzer.js'
+import { cloneBucketWeights } from './engine/scorer.js'
+import { fitCTRCurve } from './engine/ctr-curve.js'
 import { WeightAdjuster } from './learning/weight-adjuster.js'
 import { OutcomeEvaluator } from './learning/outcome-evaluator.js'
 import { ModelAdjuster } from './learning/model-adjuster.js'
+import { WeightLedger } from './learning/weight-ledger.js'
+import { DriftGuard } from './learning/drift-guard.js'
 import { ModelRegistry } from './federation/registry.js'
 import { TaskRouter } from './federation/router.js'
-import { ConsensusEngine } from './federation/consensus.js'
+import { ConsensusEngine, ConsensusError } from './federation/consensus.js'
+import { FederationScheduler } from './federation/scheduler.js'
 import { ModelWeightManager } from './federation/model-weights.js'
+import { resolvePosteriors } from './federation/posteriors.js'
+import { CostTracker } from './federation/cost.js'
 
 export interface Cr0nEngine {
   /** Run a full optimization cycle */
@@ -140,14 +375,36 @@ export interface Cr0nEngine {
   /** Get current content weights */
   getWeights(): WeightConfig
 
+  /** Get current per-bucket content weights (buckets without one use getWeights()) */
+  getBucketWeights(): BucketWeights
+
+  /** Get the expected-CTR curve (refit each cycle when `refitCTRCurve` is set) */
+  getCTRCurve(): CTRCurve
+
   /** Get current model weights */
   getModelWeights(): ModelWeights
 
+  /** Get current per-bucket model success posteriors */
+  getModelPosteriors(): ModelPosteriors
+
   /** Get model statistics */
   getModelStats(): ModelStats[]
 
   /** Get available model count */
   getModelCount(): number
+
+  /** Weight ledger, oldest version first */
+  getWeightHistory(): Promise<WeightVersion[]>
+
+  /** Changes between two weight versions (`to` defaults to the latest) */
+  diffWeights(from: number, to?: number): Promise<WeightDiff>
+
+  /**
+   * Restore a prior version's content weights, model weights and model
+   * posteriors, recorded as a new version on `date` (default now). A
+   * version saved without posteriors resets them to uniform priors.
+   */
+  rollbackWeights(version: number, date?: Date | string): Promise<WeightVersion>
 }
 
 /**
@@ -155,29 +412,77 @@ export interface Cr0nEngine {
  *
  * @example
  * ```ts
- * import { createEngine } from '@0nork/cr0n-engine';
+ * import { createEngine, createFileStateStore } from '@0nork/cr0n-engine';
  *
  * const engine = createEngine({
  *   models: {
  *     claude: { apiKey: process.env.ANTHROPIC_API_KEY },
  *     openai: { apiKey: process.env.OPENAI_API_KEY },
  *   },
- *   weights: savedContentWeights,
- *   modelWeights: savedModelWeights,
+ *   store: createFileStateStore(),
  * });
  *
+ * // Prior weights and actions are loaded from the store,
+ * // and the new state is committed when the cycle finishes.
  * const result = await engine.runCycle({
  *   pages: pageDataArray,
- *   completedActions: pastActions,
+ *   completedActions: newlyCompletedActions,
  * });
  * ```
  */
 export function createEngine(config: EngineConfig): Cr0nEngine {
-  const resolved = resolveConfig(config)
-  const registry = ModelRegistry.fromConfig(config)
-  const router = new TaskRouter(registry, resolved.modelWeights)
+  // This engine's custom buckets; other engines in the process keep their own
+  const buckets = new BucketRegistry(config.buckets)
+
+  const registry = ModelRegistry.fromConfig(config, buckets)
+  const registeredIds = registry.getAvailableIds()
+  const weightedModelIds = registeredIds.length > 0 ? registeredIds : undefined
+  const resolved = resolveConfig(config, weightedModelIds, buckets)
+  const router = new TaskRouter(
+    registry,
+    resolved.modelWeights,
+    resolved.routing,
+    resolved.modelPosteriors
+  )
   const consensus = new ConsensusEngine(resolved.consensusThreshold)
-  const weightManager = new ModelWeightManager(config.modelWeights)
+  const scheduler = new FederationScheduler(config.scheduler)
+  const weightManager = new ModelWeightManager(resolved.modelWeights)
+
+  // Content weight momentum, carried between cycles and kept in the store
+  let weightVelocity: WeightVelocity = {}
+
+  // Weight versions; reloaded from the store when one is configured
+  let ledger = new WeightLedger()
+  const driftGuard = config.driftGuard === false ? null : new DriftGuard(config.driftGuard)
+
+  // Branded traffic is only told apart once brand terms are configured
+  const brandedTraffic: BrandedTrafficMode = resolved.brand.terms.length > 0 ? resolved.brand.mode : 'include'
+
+  // Folds combined tasks' secondary buckets into federated briefs
+  const briefGenerator = createBriefGenerator(buckets)
+
+  // Uplift forecasts; recalibrated on every conclusive outcome each cycle
+  const forecaster = createForecaster(config.forecast, resolved.ctrCurve, brandedTraffic, buckets)
+
+  function tagPages(pages: PageData[]): PageData[] {
+    const tagged = resolved.brand.terms.length === 0
+      ? pages
+      : pages.map(page => tagBrandedTraffic(page, resolved.brand.terms))
+    return config.cannibalization === false ? tagged : tagCannibalization(tagged, config.cannibalization)
+  }
+
+  // The CTR curve fit that matches how the scorer treats branded traffic
+  function brandFitOptions(): Partial<CTRCurveFitOptions> {
+    const options: Partial<CTRCurveFitOptions> = { brandTerms: resolved.brand.terms }
+    if (brandedTraffic === 'separate') options.segmentBy = 'brand'
+    if (brandedTraffic === 'exclude') options.branded = 'exclude'
+    return options
+  }
+
+  async function loadLedger(): Promise<WeightLedger> {
+    if (config.store) ledger = new WeightLedger(await config.store.loadWeightHistory())
+    return ledger
+  }
 
   // Track model usage for stats
   const modelTracking: Array<{
@@ -191,23 +496,99 @@ export function createEngine(config: EngineConfig): Cr0nEngine {
     async runCycle(input: CycleInput): Promise<CycleResult> {
       const startTime = Date.now()
       const siteId = input.siteId || 'default'
+      // The day `pages` were observed; evaluation, logs and versions are dated by it
+      const date = toDateKey(input.date ?? new Date())
       const allLearningLogs: LearningLog[] = []
+      let pages = tagPages(input.pages)
+
+      // ── Step 0: Load prior state (if a store is configured) ──
+      let completedActions = input.completedActions ?? []
+      const history = new SnapshotHistory()
+      if (config.store) {
+        const prior = await config.store.load(siteId)
+        history.addAll(prior.snapshots)
+        ledger = new WeightLedger(prior.weightHistory)
+        if (prior.weights) {
+          resolved.weights = { ...resolved.weights, ...prior.weights }
+        }
+        if (prior.bucketWeights) {
+          resolved.bucketWeights = { ...resolved.bucketWeights, ...prior.bucketWeights }
+        }
+        if (prior.weightVelocity) {
+          weightVelocity = prior.weightVelocity
+        }
+        if (prior.modelWeights) {
+          const priorWeights = new ModelWeightManager(prior.modelWeights, weightedModelIds)
+          priorWeights.ensureBuckets(buckets.getBuckets())
+          resolved.modelWeights = priorWeights.getWeights()
+          router.setModelWeights(resolved.modelWeights)
+          weightManager.setWeights(resolved.modelWeights)
+        }
+        if (prior.modelPosteriors) {
+          resolved.modelPosteriors = resolvePosteriors(
+            weightManager.getModelIds(),
+            prior.modelPosteriors
+          )
+          router.setPosteriors(resolved.modelPosteriors)
+        }
+        completedActions = mergeActions(prior.actions, completedActions)
+      }
+
+      // Backfilled and today's snapshots extend the history the evaluator windows over
+      history.addAll(input.snapshots ?? [])
+      const newSnapshots = [
+        ...(input.snapshots ?? []),
+        ...history.recordPages(pages, date, siteId),
+      ]
+
+      // Click and impression trends over the history through the cycle's date
+      if (config.decay !== false) {
+        pages = tagDecay(pages, history, config.decay, date)
+      }
+
+      // Expected CTR from this site's own rankings, shrunk toward the configured curve
+      if (config.refitCTRCurve) {
+        resolved.ctrCurve = fitCTRCurve(
+          pages,
+          { ...brandFitOptions(), ...(config.refitCTRCurve === true ? {} : config.refitCTRCurve) },
+          config.ctrCurve
+        )
+      }
 
       // ── Step 1: Evaluate completed actions (Dimension 1 + 2) ──
       let evaluations = null
       const contentAdjuster = new WeightAdjuster(
         resolved.weights,
-        undefined,
-        0
+        config.learning,
+        0,
+        resolved.bucketWeights,
+        buckets
       )
+      contentAdjuster.setVelocity(weightVelocity)
       const modelAdjuster = new ModelAdjuster(
-        resolved.modelWeights
+        resolved.modelWeights,
+        undefined,
+        resolved.modelPosteriors
       )
 
-      if (input.completedActions && input.completedActions.length > 0) {
+      let contentAdjustments: WeightAdjustment[] = []
+      let weightUpdates: WeightUpdate[] = []
+      let weightVersion: WeightVersion | null = null
+      const newWeightVersions: WeightVersion[] = []
+
+      // Weights before learning, for the drift guard and the ledger
+      const previous = {
+        weights: { ...resolved.weights },
+        bucketWeights: cloneBucketWeights(resolved.bucketWeights),
+        modelWeights: JSON.parse(JSON.stringify(resolved.modelWeights)) as ModelWeights,
+        modelPosteriors: JSON.parse(JSON.stringify(resolved.modelPosteriors)) as ModelPosteriors,
+      }
+      const boundHits: WeightBoundHit[] = []
+
+      if (completedActions.length > 0) {
         // Build page data map for evaluation
         const pageMap = new Map<string, PageData>()
-        for (const page of input.pages) {
+        for (const page of pages) {
           pageMap.set(page.url, page)
         }
 
@@ -215,20 +596,41 @@ export function createEngine(config: EngineConfig): Cr0nEngine {
         const evaluator = new OutcomeEvaluator({
           evaluationDelayDays: resolved.evaluationDelayDays,
           maxActionAgeDays: resolved.maxActionAgeDays,
+          windowDays: resolved.evaluationWindowDays,
+          significance: config.significance,
+          controlCohort: config.controlCohort,
+          ctrCurve: resolved.ctrCurve,
+          bucketPriority: resolved.bucketPriority,
+          annotations: config.annotations,
+          annotationPolicy: config.annotationPolicy,
+          history,
+          buckets,
+          date,
         })
-        evaluations = evaluator.batchEvaluate(input.completedActions, pageMap)
+        evaluations = evaluator.batchEvaluate(completedActions, pageMap)
         allLearningLogs.push(...evaluations.learningLogs)
 
         // Dimension 1: Adjust content weights
-        const actionsForLearning = evaluations.evaluated.map(e => e.action)
-        if (actionsForLearning.length > 0) {
-          const contentResult = contentAdjuster.runLearningCycle(actionsForLearning)
+        if (evaluations.evaluated.length > 0) {
+          const contentResult = contentAdjuster.runLearningCycle(evaluations.evaluated)
           resolved.weights = contentResult.newWeights
+          resolved.bucketWeights = contentResult.newBucketWeights
+          contentAdjustments = contentResult.adjustments
+          weightUpdates = contentResult.updates
+          weightVelocity = contentAdjuster.getVelocity()
+
+          const { minWeight, maxWeight } = contentAdjuster.getConfig()
+          for (const update of contentResult.updates) {
+            for (const [weight, value] of Object.entries(update.after)) {
+              const bound = value <= minWeight ? 'min' : value >= maxWeight ? 'max' : null
+              if (bound) boundHits.push({ vector: 'content', target: update.target, weight, bound })
+            }
+          }
 
           for (const adj of contentResult.adjustments) {
             allLearningLogs.push({
-              date: new Date().toISOString().split('T')[0],
-              action: `Content weight: ${adj.weight}`,
+              date,
+              action: `Content weight: ${adj.bucket ? `${adj.bucket}.` : ''}${adj.weight}`,
               result: `${adj.oldValue.toFixed(4)} -> ${adj.newValue.toFixed(4)}`,
               weightAdj: adj.reason,
             })
@@ -236,100 +638,320 @@ export function createEngine(config: EngineConfig): Cr0nEngine {
         }
 
         // Dimension 2: Adjust model weights
-        const modelEvaluations = evaluations.evaluated
-          .filter(e => e.action.modelUsed)
-          .map(e => ({
-            action: e.action,
-            success: e.success,
-            successScore: e.successScore,
-          }))
+        const modelEvaluations = evaluations.evaluated.filter(e => e.action.modelUsed)
 
         if (modelEvaluations.length > 0) {
           const modelResult = modelAdjuster.runLearningCycle(modelEvaluations)
           resolved.modelWeights = modelResult.newModelWeights
+          resolved.modelPosteriors = modelResult.newPosteriors
           router.setModelWeights(resolved.modelWeights)
+          router.setPosteriors(resolved.modelPosteriors)
+
+          allLearningLogs.push(...modelAdjuster.toLearningLogs(modelResult, date))
+
+          const { minWeight, maxWeight } = modelAdjuster.getBounds()
+          for (const adj of modelResult.adjustments) {
+            const bound = adj.newWeight <= minWeight + 0.0001 ? 'min'
+              : adj.newWeight >= maxWeight - 0.0001 ? 'max'
+              : null
+            if (bound) boundHits.push({ vector: 'model', target: adj.bucket, weight: adj.modelId, bound })
+          }
+        }
+
+        // Guardrails and ledger entry, whenever learning ran
+        const learned = evaluations.evaluated.filter(e => e.outcome !== 'inconclusive')
+        if (learned.length > 0) {
+          const capped: DriftCap[] = []
 
-          allLearningLogs.push(...modelAdjuster.toLearningLogs(modelResult))
+          if (driftGuard) {
+            const global = driftGuard.cap('content', 'global', previous.weights, resolved.weights)
+            resolved.weights = global.weights
+            if (global.cap) capped.push(global.cap)
+
+            for (const bucket of Object.keys(resolved.bucketWeights) as ActionBucket[]) {
+              const result = driftGuard.cap(
+                'content',
+                bucket,
+                previous.bucketWeights[bucket] ?? previous.weights,
+                resolved.bucketWeights[bucket]!
+              )
+              resolved.bucketWeights[bucket] = result.weights
+              if (result.cap) capped.push(result.cap)
+            }
+
+            for (const bucket of Object.keys(resolved.modelWeights) as ActionBucket[]) {
+              const result = driftGuard.cap(
+                'model',
+                bucket,
+                previous.modelWeights[bucket] ?? {},
+                resolved.modelWeights[bucket]
+              )
+              resolved.modelWeights[bucket] = result.weights
+              if (result.cap) {
+                capped.push(result.cap)
+                // Hold the posteriors to the same fraction of their step
+                if (resolved.modelPosteriors[bucket]) {
+                  resolved.modelPosteriors[bucket] = driftGuard.capPosteriors(
+                    previous.modelPosteriors[bucket] ?? {},
+                    resolved.modelPosteriors[bucket],
+                    result.cap
+                  )
+                }
+              }
+            }
+
+            if (capped.length > 0) {
+              router.setModelWeights(resolved.modelWeights)
+              router.setPosteriors(resolved.modelPosteriors)
+              weightManager.setWeights(resolved.modelWeights)
+              // Report the capped values, not the raw step
+              contentAdjustments = contentAdjustments.map(adj => ({
+                ...adj,
+                newValue: (adj.bucket ? resolved.bucketWeights[adj.bucket]! : resolved.weights)[adj.weight],
+              }))
+            }
+          }
+
+          const alerts = driftGuard ? driftGuard.getAlerts(ledger.list(), boundHits) : []
+          for (const cap of capped) {
+            allLearningLogs.push({
+              date,
+              action: `Drift cap: ${cap.vector} ${cap.target}`,
+              result: `${cap.drift.toFixed(4)} -> ${cap.applied.toFixed(4)}`,
+              weightAdj: 'Scaled back',
+            })
+          }
+          for (const alert of alerts) {
+            allLearningLogs.push({
+              date,
+              action: `Weight alert: ${alert.vector} ${alert.target}.${alert.weight}`,
+              result: alert.message,
+              weightAdj: 'Review',
+            })
+          }
+
+          // The first version is the starting point, so it can be rolled back to
+          if (ledger.size === 0) {
+            newWeightVersions.push(ledger.record({
+              siteId,
+              source: 'initial',
+              weights: previous.weights,
+              bucketWeights: previous.bucketWeights,
+              modelWeights: previous.modelWeights,
+              modelPosteriors: previous.modelPosteriors,
+              evaluations: [],
+              capped: [],
+              boundHits: [],
+              alerts: [],
+            }, date))
+          }
+
+          weightVersion = ledger.record({
+            siteId,
+            source: 'cycle',
+            weights: resolved.weights,
+            bucketWeights: resolved.bucketWeights,
+            modelWeights: resolved.modelWeights,
+            modelPosteriors: resolved.modelPosteriors,
+            evaluations: learned.map(e => ({
+              url: e.action.url,
+              actionType: e.action.actionType,
+              outcome: e.outcome,
+              successScore: e.successScore,
+              modelUsed: e.action.modelUsed,
+            })),
+            capped,
+            boundHits,
+            alerts,
+          }, date)
+          newWeightVersions.push(weightVersion)
         }
       }
 
       // ── Step 2: Score & Classify ──
+      // Actions evaluated in earlier cycles aren't re-evaluated, so this
+      // cycle's results and theirs don't overlap
+      forecaster.setCTRCurve(resolved.ctrCurve)
+      forecaster.calibrate([
+        ...(evaluations?.evaluated ?? []),
+        ...completedActions.filter(a => a.learningApplied),
+      ])
+
       const analyzer = new SEOAnalyzer({
         weights: resolved.weights,
+        bucketWeights: resolved.bucketWeights,
+        ctrCurve: resolved.ctrCurve,
+        brandedTraffic,
         maxTasksPerRun: resolved.maxTasksPerRun,
         includeMonitorBucket: resolved.includeMonitorBucket,
+        bucketPriority: resolved.bucketPriority,
+        combineBuckets: config.combineBuckets,
+        forecaster,
+        rankBy: config.rankBy,
+        effort: config.effort,
+        capacity: config.capacity,
+        buckets,
       })
 
-      const basePlan = analyzer.generateDailyPlan(siteId, input.pages, allLearningLogs)
+      const basePlan = analyzer.generateDailyPlan(siteId, pages, allLearningLogs, date)
+      briefGenerator.setDate(date)
 
       // ── Step 3: Federate (if models available) ──
       const availableModels = registry.getAvailable()
 
+      const costTracker = new CostTracker(config.pricing, config.budget)
+
+      const taskFailures: Array<TaskFailure | undefined> = []
+
       if (availableModels.length > 0) {
-        // Federate top tasks
-        const federatedTasks: SEOTask[] = []
+        // Federate top tasks concurrently; the scheduler bounds per-provider load
+        basePlan.tasks = await scheduler.map(basePlan.tasks, async (task, index) => {
+          // Budget spent — keep the local brief. Each model call also holds
+          // its expected cost against the budget, so calls in flight can't overrun it
+          if (costTracker.isExhausted()) {
+            costTracker.recordFallback()
+            return task
+          }
 
-        for (const task of basePlan.tasks) {
           try {
             const route = router.route(task.bucket)
             const adapters = route.models
               .map(id => registry.get(id))
               .filter((a): a is NonNullable<typeof a> => !!a)
 
-            if (adapters.length > 0) {
-              const result = await consensus.generateConsensus(
-                adapters,
-                task.metrics,
-                task.bucket,
-                resolved.modelWeights
-              )
+            if (adapters.length === 0) return task
+
+            const result = await consensus.generateConsensus(
+              adapters,
+              task.metrics,
+              task.bucket,
+              resolved.modelWeights,
+              scheduler,
+              costTracker
+            )
 
-              // Tag the brief
-              task.brief = result.brief
-              task.brief.generatedBy = result.primaryModel
-              task.brief.contributingModels = result.contributions.map(c => c.modelId)
-              task.brief.consensusConfidence = result.confidence
-
-              // Track for stats
-              for (const contribution of result.contributions) {
-                modelTracking.push({
-                  modelId: contribution.modelId,
-                  bucket: task.bucket,
-                  success: true, // Will be evaluated later
-                  confidence: result.confidence,
-                })
+            // Tag the brief; models don't see the query list or competing URLs,
+            // so keep the local keywords and consolidation plan. Models write
+            // for the primary bucket; the others are folded back in locally
+            const { secondaryKeywords: localKeywords, consolidation } = task.brief
+            task.brief = result.brief
+            task.brief.secondaryKeywords ??= localKeywords
+            if (consolidation) task.brief.consolidation ??= consolidation
+            task.brief = briefGenerator.addSecondaryBuckets(task.brief, task.metrics, task.secondaryBuckets ?? [])
+            task.brief.generatedBy = result.primaryModel
+            task.brief.contributingModels = result.contributions.map(c => c.modelId)
+            task.brief.consensusConfidence = result.confidence
+
+            // Track for stats; the cost tracker recorded every attempt itself
+            for (const contribution of result.contributions) {
+              modelTracking.push({
+                modelId: contribution.modelId,
+                bucket: task.bucket,
+                success: true, // Will be evaluated later
+                confidence: result.confidence,
+              })
+            }
+
+            if (result.failures.length > 0) {
+              taskFailures[index] = {
+                url: task.url,
+                bucket: task.bucket,
+                fallback: false,
+                models: result.failures,
               }
             }
-          } catch {
+          } catch (err) {
+            // No model call fit in the budget — a budget fallback, not a failure
+            if (err instanceof ConsensusError && err.failures.every(f => f.budgetExhausted)) {
+              costTracker.recordFallback()
+              return task
+            }
+
             // Federation failed for this task — keep the local brief
+            taskFailures[index] = {
+              url: task.url,
+              bucket: task.bucket,
+              fallback: true,
+              error: err instanceof Error ? err.message : String(err),
+              models: err instanceof ConsensusError ? err.failures : [],
+            }
           }
 
-          federatedTasks.push(task)
-        }
-
-        basePlan.tasks = federatedTasks
+          return task
+        })
       }
 
       // ── Step 4: Build result ──
       const modelStats = weightManager.generateStats(modelTracking)
 
+      const run = analyzer.createAnalysisRun(siteId, basePlan, {
+        learningCycleRan: !!evaluations && evaluations.evaluated.length > 0,
+        actionsEvaluated: evaluations?.stats.total ?? 0,
+        successfulActions: evaluations?.stats.successful ?? 0,
+        weightAdjustments: contentAdjustments,
+      })
+      run.startedAt = new Date(startTime).toISOString()
+      run.completedAt = new Date().toISOString()
+      run.durationMs = Date.now() - startTime
+
+      // ── Step 5: Commit new state ──
+      if (config.store) {
+        // The evaluator has written results back; inconclusive actions stay
+        // open (learningApplied: false) and are re-evaluated next cycle
+        const evaluatedActions = [
+          ...(evaluations?.evaluated ?? []).map(e => e.action),
+          ...(evaluations?.excluded ?? []),
+        ]
+
+        await config.store.commit({
+          weights: resolved.weights,
+          bucketWeights: resolved.bucketWeights,
+          modelWeights: resolved.modelWeights,
+          modelPosteriors: resolved.modelPosteriors,
+          weightVelocity,
+          actions: mergeActions(completedActions, evaluatedActions),
+          run,
+          plan: basePlan,
+          snapshots: newSnapshots,
+          weightVersions: newWeightVersions,
+        })
+      }
+
       return {
         plan: basePlan,
         evaluations,
         weights: resolved.weights,
+        bucketWeights: cloneBucketWeights(resolved.bucketWeights),
+        ctrCurve: resolved.ctrCurve,
+        weightUpdates,
+        weightVersion,
         modelWeights: resolved.modelWeights,
+        modelPosteriors: resolved.modelPosteriors,
         modelStats,
         learningLog: allLearningLogs,
+        run,
+        cost: costTracker.getReport(),
+        failures: taskFailures.filter((f): f is TaskFailure => !!f),
       }
     },
 
     analyze(pages: PageData[], siteId?: string): DailyPlan {
       const analyzer = new SEOAnalyzer({
         weights: resolved.weights,
+        bucketWeights: resolved.bucketWeights,
+        ctrCurve: resolved.ctrCurve,
+        brandedTraffic,
         maxTasksPerRun: resolved.maxTasksPerRun,
         includeMonitorBucket: resolved.includeMonitorBucket,
+        bucketPriority: resolved.bucketPriority,
+        combineBuckets: config.combineBuckets,
+        forecaster,
+        rankBy: config.rankBy,
+        effort: config.effort,
+        capacity: config.capacity,
+        buckets,
       })
-      return analyzer.generateDailyPlan(siteId || 'default', pages)
+      return analyzer.generateDailyPlan(siteId || 'default', tagPages(pages))
     },
 
     async federateBrief(page: PageData, bucket: ActionBucket): Promise<ContentBrief> {
@@ -342,7 +964,8 @@ export function createEngine(config: EngineConfig): Cr0nEngine {
         available,
         page,
         bucket,
-        resolved.modelWeights
+        resolved.modelWeights,
+        scheduler
       )
 
       return result.brief
@@ -352,10 +975,22 @@ export function createEngine(config: EngineConfig): Cr0nEngine {
       return { ...resolved.weights }
     },
 
+    getBucketWeights(): BucketWeights {
+      return cloneBucketWeights(resolved.bucketWeights)
+    },
+
+    getCTRCurve(): CTRCurve {
+      return JSON.parse(JSON.stringify(resolved.ctrCurve))
+    },
+
     getModelWeights(): ModelWeights {
       return JSON.parse(JSON.stringify(resolved.modelWeights))
     },
 
+    getModelPosteriors(): ModelPosteriors {
+      return JSON.parse(JSON.stringify(resolved.modelPosteriors))
+    },
+
     getModelStats(): ModelStats[] {
       return weightManager.generateStats(modelTracking)
     },
@@ -363,5 +998,54 @@ export function createEngine(config: EngineConfig): Cr0nEngine {
     getModelCount(): number {
       return registry.count()
     },
+
+    async getWeightHistory(): Promise<WeightVersion[]> {
+      return (await loadLedger()).list()
+    },
+
+    async diffWeights(from: number, to?: number): Promise<WeightDiff> {
+      return (await loadLedger()).diff(from, to)
+    },
+
+    async rollbackWeights(version: number, date: Date | string = new Date()): Promise<WeightVersion> {
+      const target = (await loadLedger()).get(version)
+      if (!target) throw new Error(`Unknown weight version ${version}`)
+
+      resolved.weights = { ...target.weights }
+      resolved.bucketWeights = cloneBucketWeights(target.bucketWeights)
+      resolved.modelWeights = JSON.parse(JSON.stringify(target.modelWeights))
+      resolved.modelPosteriors = resolvePosteriors(weightManager.getModelIds(), target.modelPosteriors)
+      router.setModelWeights(resolved.modelWeights)
+      router.setPosteriors(resolved.modelPosteriors)
+      weightManager.setWeights(resolved.modelWeights)
+      weightVelocity = {}
+
+      const entry = ledger.record({
+        siteId: target.siteId,
+        source: 'rollback',
+        restoredFrom: version,
+        weights: resolved.weights,
+        bucketWeights: resolved.bucketWeights,
+        modelWeights: resolved.modelWeights,
+        modelPosteriors: resolved.modelPosteriors,
+        evaluations: [],
+        capped: [],
+        boundHits: [],
+        alerts: [],
+      }, date)
+
+      if (config.store) {
+        await config.store.commit({
+          weights: resolved.weights,
+          bucketWeights: resolved.bucketWeights,
+          modelWeights: resolved.modelWeights,
+          modelPosteriors: resolved.modelPosteriors,
+          weightVelocity,
+          weightVersions: [entry],
+        })
+      }
+
+      return entry
+    },
   }
 }
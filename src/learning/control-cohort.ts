@@ -0,0 +1,116 @@
+// ============================================================
+// cr0n-engine — Control Cohort
+// Matches un-actioned look-alike pages to an actioned page so
+// sitewide swings (seasonality, updates) can be netted out
+// ============================================================
+
+import type {
+  PageData,
+  SEOAction,
+  MetricWindow,
+  ControlCohortConfig,
+} from '../core/types.js'
+import { DEFAULT_CONTROL_COHORT, EVALUATION_CONFIG } from '../core/constants.js'
+import { aggregateWindow, type SnapshotHistory } from '../data/history.js'
+import { ActionBucketer } from '../engine/bucketer.js'
+
+export interface ControlCohort {
+  urls: string[]
+  before: MetricWindow
+  after: MetricWindow
+}
+
+export class ControlCohortSelector {
+  private history: SnapshotHistory
+  private config: ControlCohortConfig
+  private windowDays: number
+  private minDataDays: number
+  private bucketer: ActionBucketer
+
+  constructor(
+    history: SnapshotHistory,
+    config?: Partial<ControlCohortConfig>,
+    options?: { windowDays?: number; minDataDays?: number; bucketer?: ActionBucketer }
+  ) {
+    this.history = history
+    this.config = { ...DEFAULT_CONTROL_COHORT, ...config }
+    this.windowDays = options?.windowDays ?? EVALUATION_CONFIG.windowDays
+    this.minDataDays = options?.minDataDays ?? EVALUATION_CONFIG.minDataDays
+    this.bucketer = options?.bucketer ?? new ActionBucketer()
+  }
+
+  /**
+   * Pages that (a) have no action of their own, (b) fall in the same
+   * bucket before the action date, and (c) sat at a similar position
+   * with similar impressions. Returns null below `minPages` matches.
+   */
+  select(
+    action: SEOAction,
+    treated: { before: MetricWindow; after: MetricWindow },
+    candidates: PageData[],
+    actionedUrls: Set<string>
+  ): ControlCohort | null {
+    const { positionTolerance, impressionRatio, minPages, maxPages } = this.config
+    const treatedBefore = treated.before
+    const matches: Array<{ url: string; distance: number }> = []
+
+    for (const page of candidates) {
+      if (page.url === action.url || actionedUrls.has(page.url)) continue
+
+      // Over the treated page's windows, evaluation-date cutoff included
+      const { before, after } = this.history.getWindowsAround(
+        page.url,
+        action.actionDate,
+        this.windowDays,
+        treated.after.end
+      )
+      if (!before || !after) continue
+      if (before.days < this.minDataDays || after.days < this.minDataDays) continue
+
+      const positionGap = Math.abs(before.position - treatedBefore.position)
+      if (positionGap > positionTolerance) continue
+
+      if (treatedBefore.impressions <= 0 || before.impressions <= 0) continue
+      const logRatio = Math.abs(Math.log(before.impressions / treatedBefore.impressions))
+      if (logRatio > Math.log(impressionRatio)) continue
+
+      // Bucket as of the action date, not today. Snapshots hold totals only,
+      // so today's branded split doesn't apply.
+      const then = { ...page, ...before, brandedTraffic: undefined, nonBrandedTraffic: undefined }
+      if (this.bucketer.classify(then) !== action.actionType) continue
+
+      matches.push({
+        url: page.url,
+        distance: positionGap / positionTolerance + logRatio / Math.log(impressionRatio),
+      })
+    }
+
+    if (matches.length < minPages) return null
+
+    const urls = matches
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxPages)
+      .map(m => m.url)
+
+    // Pool every cohort snapshot over the same date ranges as the actioned page
+    const pooled = ({ start, end }: MetricWindow): MetricWindow | null => aggregateWindow(
+      urls.flatMap(url => this.history.getSnapshots(url, start, end)),
+      start,
+      end
+    )
+
+    const before = pooled(treated.before)
+    const after = pooled(treated.after)
+    if (!before || !after) return null
+
+    return { urls, before, after }
+  }
+}
+
+export function createControlCohortSelector(
+  history: SnapshotHistory,
+  config?: Partial<ControlCohortConfig>,
+  options?: { windowDays?: number; minDataDays?: number; bucketer?: ActionBucketer }
+): ControlCohortSelector {
+  return new ControlCohortSelector(history, config, options)
+}
@@ -0,0 +1,138 @@
+// ============================================================
+// cr0n-engine — Drift Guard
+// Caps how far a weight vector can move in one cycle and
+// flags weights that keep running into their bounds
+// ============================================================
+
+import type {
+  BetaPosterior,
+  DriftCap,
+  DriftGuardConfig,
+  WeightAlert,
+  WeightBoundHit,
+  WeightVersion,
+} from '../core/types.js'
+import { DEFAULT_DRIFT_GUARD } from '../core/constants.js'
+
+export class DriftGuard {
+  private config: DriftGuardConfig
+
+  constructor(config?: Partial<DriftGuardConfig>) {
+    this.config = { ...DEFAULT_DRIFT_GUARD, ...config }
+  }
+
+  /**
+   * Scale the step from `before` to `after` so its L1 length is at most
+   * `maxDrift`. Components are rounded to 4 decimals, and the rounding
+   * residual goes to the largest one, so the result keeps the sum of
+   * `after`.
+   */
+  cap<T extends object>(
+    vector: DriftCap['vector'],
+    target: DriftCap['target'],
+    before: T,
+    after: T
+  ): { weights: T; cap: DriftCap | null } {
+    const from = before as Record<string, number>
+    const to = after as Record<string, number>
+    const keys = Object.keys(to)
+    const drift = keys.reduce((sum, key) => sum + Math.abs(to[key] - (from[key] ?? 0)), 0)
+
+    if (drift <= this.config.maxDrift) return { weights: after, cap: null }
+
+    const scale = this.config.maxDrift / drift
+    const capped: Record<string, number> = {}
+    for (const key of keys) {
+      const base = from[key] ?? 0
+      capped[key] = round(base + (to[key] - base) * scale)
+    }
+
+    const largest = keys.reduce((max, key) => (capped[key] > capped[max] ? key : max), keys[0])
+    const residual = keys.reduce((sum, key) => sum + to[key] - capped[key], 0)
+    capped[largest] = round(capped[largest] + residual)
+
+    return {
+      weights: capped as T,
+      cap: {
+        vector,
+        target,
+        drift: round(drift),
+        applied: this.config.maxDrift,
+      },
+    }
+  }
+
+  /**
+   * Scale a posterior update by the same factor as its capped weight
+   * step, so routing samples from evidence no stronger than the weights
+   * the guard let through. Models without a previous posterior keep
+   * their update.
+   */
+  capPosteriors(
+    before: Record<string, BetaPosterior>,
+    after: Record<string, BetaPosterior>,
+    cap: DriftCap
+  ): Record<string, BetaPosterior> {
+    const scale = cap.drift > 0 ? cap.applied / cap.drift : 1
+    const capped: Record<string, BetaPosterior> = {}
+    for (const [modelId, posterior] of Object.entries(after)) {
+      const base = before[modelId]
+      capped[modelId] = base
+        ? {
+            alpha: base.alpha + (posterior.alpha - base.alpha) * scale,
+            beta: base.beta + (posterior.beta - base.beta) * scale,
+          }
+        : posterior
+    }
+    return capped
+  }
+
+  /**
+   * Alerts for weights that hit the same bound in this cycle and in each
+   * of the `boundAlertCycles - 1` versions before it
+   */
+  getAlerts(history: WeightVersion[], hits: WeightBoundHit[]): WeightAlert[] {
+    const recent = history
+      .filter(v => v.source === 'cycle')
+      .sort((a, b) => b.version - a.version)
+
+    const alerts: WeightAlert[] = []
+    for (const hit of uniqueHits(hits)) {
+      let cycles = 1
+      for (const version of recent) {
+        if (!version.boundHits.some(h => sameHit(h, hit))) break
+        cycles++
+      }
+
+      if (cycles >= this.config.boundAlertCycles) {
+        const label = hit.vector === 'content' ? `${hit.target} ${hit.weight}` : `${hit.weight} on ${hit.target}`
+        alerts.push({
+          ...hit,
+          cycles,
+          message: `${hit.vector === 'content' ? 'Content' : 'Model'} weight ${label} hit its ${hit.bound} bound ${cycles} cycles in a row`,
+        })
+      }
+    }
+    return alerts
+  }
+
+  getConfig(): DriftGuardConfig {
+    return { ...this.config }
+  }
+}
+
+function sameHit(a: WeightBoundHit, b: WeightBoundHit): boolean {
+  return a.vector === b.vector && a.target === b.target && a.weight === b.weight && a.bound === b.bound
+}
+
+function uniqueHits(hits: WeightBoundHit[]): WeightBoundHit[] {
+  return hits.filter((hit, i) => hits.findIndex(h => sameHit(h, hit)) === i)
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+export function createDriftGuard(config?: Partial<DriftGuardConfig>): DriftGuard {
+  return new DriftGuard(config)
+}
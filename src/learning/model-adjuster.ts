@@ -1,21 +1,25 @@
 // ============================================================
 // cr0n-engine — Model Weight Adjuster (Dimension 2)
 // Learns which AI model performs best per task type
-// Uses Thompson Sampling for exploration/exploitation
+// Maintains Beta posteriors for Thompson Sampling routing
 // ============================================================
 
 import type {
   ActionBucket,
   ModelId,
   ModelWeights,
-  SEOAction,
+  ModelPosteriors,
   LearningLog,
+  EvaluationResult,
 } from '../core/types.js'
 import { DEFAULT_MODEL_LEARNING_RATE } from '../core/constants.js'
 import { ModelWeightManager } from '../federation/model-weights.js'
+import { resolvePosteriors, updatePosterior } from '../federation/posteriors.js'
+import { toDateKey } from '../data/history.js'
 
 export interface ModelLearningResult {
   newModelWeights: ModelWeights
+  newPosteriors: ModelPosteriors
   adjustments: ModelWeightAdjustment[]
   modelPerformance: Map<ModelId, { successes: number; failures: number }>
 }
@@ -30,6 +34,7 @@ export interface ModelWeightAdjustment {
 
 export class ModelAdjuster {
   private weightManager: ModelWeightManager
+  private posteriors: ModelPosteriors
   private learningRate: number
   private minWeight: number
   private maxWeight: number
@@ -40,9 +45,11 @@ export class ModelAdjuster {
       learningRate?: number
       minWeight?: number
       maxWeight?: number
-    }
+    },
+    posteriors?: Partial<ModelPosteriors>
   ) {
     this.weightManager = new ModelWeightManager(weights)
+    this.posteriors = resolvePosteriors(this.weightManager.getModelIds(), posteriors)
     this.learningRate = config?.learningRate ?? DEFAULT_MODEL_LEARNING_RATE
     this.minWeight = config?.minWeight ?? 0.05
     this.maxWeight = config?.maxWeight ?? 0.60
@@ -53,20 +60,17 @@ export class ModelAdjuster {
    * For each evaluated action, check which model generated the brief.
    * Success? Increase that model's weight for that bucket.
    * Failure? Decrease weight, redistribute to others.
+   * Either way the model's Beta posterior for the bucket is updated.
+   * Inconclusive outcomes are skipped entirely.
    */
-  runLearningCycle(
-    evaluatedActions: Array<{
-      action: SEOAction
-      success: boolean
-      successScore: number
-    }>
-  ): ModelLearningResult {
+  runLearningCycle(evaluatedActions: EvaluationResult[]): ModelLearningResult {
     const adjustments: ModelWeightAdjustment[] = []
     const performance = new Map<ModelId, { successes: number; failures: number }>()
 
-    for (const { action, success, successScore } of evaluatedActions) {
+    for (const { action, success, successScore, outcome } of evaluatedActions) {
       const modelId = action.modelUsed as ModelId | undefined
       if (!modelId) continue
+      if (outcome === 'inconclusive') continue
 
       // Track performance
       if (!performance.has(modelId)) {
@@ -83,6 +87,8 @@ export class ModelAdjuster {
         : -this.learningRate * 0.5
 
       const bucket = action.actionType
+      updatePosterior(this.posteriors, bucket, modelId, success)
+
       const oldWeight = this.weightManager.getWeight(bucket, modelId)
 
       this.weightManager.adjustWeight(
@@ -110,17 +116,18 @@ export class ModelAdjuster {
 
     return {
       newModelWeights: this.weightManager.getWeights(),
+      newPosteriors: this.getPosteriors(),
       adjustments,
       modelPerformance: performance,
     }
   }
 
   /**
-   * Generate learning logs from model adjustments
+   * Generate learning logs from model adjustments, dated `date` (default today)
    */
-  toLearningLogs(result: ModelLearningResult): LearningLog[] {
+  toLearningLogs(result: ModelLearningResult, date: Date | string = new Date()): LearningLog[] {
     return result.adjustments.map(adj => ({
-      date: new Date().toISOString().split('T')[0],
+      date: toDateKey(date),
       action: `Model weight: ${adj.modelId} on ${adj.bucket}`,
       result: `${adj.oldWeight.toFixed(4)} -> ${adj.newWeight.toFixed(4)}`,
       weightAdj: adj.reason,
@@ -140,6 +147,20 @@ export class ModelAdjuster {
   setWeights(weights: ModelWeights): void {
     this.weightManager.setWeights(weights)
   }
+
+  /**
+   * Clamp range applied to every model weight
+   */
+  getBounds(): { minWeight: number; maxWeight: number } {
+    return { minWeight: this.minWeight, maxWeight: this.maxWeight }
+  }
+
+  /**
+   * Get current success posteriors
+   */
+  getPosteriors(): ModelPosteriors {
+    return JSON.parse(JSON.stringify(this.posteriors))
+  }
 }
 
 export function createModelAdjuster(
@@ -148,7 +169,8 @@ export function createModelAdjuster(
     learningRate?: number
     minWeight?: number
     maxWeight?: number
-  }
+  },
+  posteriors?: Partial<ModelPosteriors>
 ): ModelAdjuster {
-  return new ModelAdjuster(weights, config)
+  return new ModelAdjuster(weights, config, posteriors)
 }
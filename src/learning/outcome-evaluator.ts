@@ -2,6 +2,8 @@
 // cr0n-engine — Outcome Evaluator
 // Evaluates action outcomes after the evaluation period
 // Extended with model tracking for federation
+// Compares before/after windows when snapshot history is available
+// Checks evaluation periods against dated annotations
 // ============================================================
 
 import type {
@@ -11,27 +13,187 @@ import type {
   ActionBucket,
   EvaluationResult,
   BatchEvaluationResult,
+  MetricWindow,
+  EvaluationOutcome,
+  SignificanceConfig,
+  SignificanceResult,
+  ControlCohortConfig,
+  ControlComparison,
+  Annotation,
+  AnnotationPolicy,
+  CTRCurve,
 } from '../core/types.js'
-import { EVALUATION_CONFIG, SUCCESS_CRITERIA } from '../core/constants.js'
+import { DEFAULT_SIGNIFICANCE, EVALUATION_CONFIG, getSuccessCriteria, isKnownBucket } from '../core/constants.js'
+import { daysBetween, toDateKey, type SnapshotHistory } from '../data/history.js'
+import { AnnotationCalendar } from '../data/annotations.js'
+import { proportionTest, poissonRateTest, welchTTest } from './significance.js'
+import { ControlCohortSelector, type ControlCohort } from './control-cohort.js'
+import { ActionBucketer } from '../engine/bucketer.js'
+import type { BucketRegistry } from '../core/buckets.js'
+
+type Metrics = Pick<PageData, 'clicks' | 'impressions' | 'ctr' | 'position' | 'conversions'>
+
+/**
+ * Metrics for one side of the comparison. Windows hold per-day averages
+ * over `periods` days; counts for the tests are average × periods, which
+ * assumes daily snapshots (rolling-period snapshots overstate the sample).
+ */
+interface Sample {
+  metrics: Metrics
+  periods: number
+  positions?: number[]           // Daily positions, when history is available
+}
+
+interface Verdict {
+  outcome: EvaluationOutcome
+  score: number
+  significance: SignificanceResult
+}
+
+function relativeChange(base: number, current: number): number {
+  if (base > 0) return (current - base) / base
+  return current > 0 ? Infinity : 0
+}
+
+function formatAnnotations(annotations: Annotation[]): string {
+  return annotations
+    .map(a => (a.endDate && a.endDate !== a.date ? `${a.name} ${a.date}→${a.endDate}` : `${a.name} ${a.date}`))
+    .join(', ')
+}
+
+export interface OutcomeEvaluatorConfig {
+  evaluationDelayDays?: number
+  maxActionAgeDays?: number
+  windowDays?: number            // Before/after window length, default 28
+  minDataDays?: number           // Snapshots required in each window, default 7
+  significance?: Partial<SignificanceConfig>
+  controlCohort?: Partial<ControlCohortConfig> | false
+  ctrCurve?: CTRCurve            // Buckets control-cohort candidates, default DEFAULT_CTR_CURVE
+  bucketPriority?: ActionBucket[]  // Must match the analyzer's for cohort bucket matching
+  annotations?: Annotation[]
+  annotationPolicy?: AnnotationPolicy  // Default 'exclude'
+  history?: SnapshotHistory
+  buckets?: BucketRegistry       // Custom buckets' success criteria and rules
+  date?: Date | string           // Evaluation date, default today
+}
 
 export class OutcomeEvaluator {
   private evaluationDelayDays: number
   private maxActionAgeDays: number
-
-  constructor(config?: { evaluationDelayDays?: number; maxActionAgeDays?: number }) {
+  private windowDays: number
+  private minDataDays: number
+  private significance: SignificanceConfig
+  private controlCohort: Partial<ControlCohortConfig> | false
+  private bucketer: ActionBucketer
+  private buckets?: BucketRegistry
+  private annotations: AnnotationCalendar
+  private annotationPolicy: AnnotationPolicy
+  private history: SnapshotHistory | null
+  private date: string
+
+  constructor(config?: OutcomeEvaluatorConfig) {
     this.evaluationDelayDays = config?.evaluationDelayDays ?? EVALUATION_CONFIG.evaluationDelayDays
     this.maxActionAgeDays = config?.maxActionAgeDays ?? EVALUATION_CONFIG.maxActionAgeDays
+    this.windowDays = config?.windowDays ?? EVALUATION_CONFIG.windowDays
+    this.minDataDays = config?.minDataDays ?? EVALUATION_CONFIG.minDataDays
+    this.significance = { ...DEFAULT_SIGNIFICANCE, ...config?.significance }
+    this.controlCohort = config?.controlCohort ?? {}
+    this.buckets = config?.buckets
+    this.bucketer = new ActionBucketer(undefined, config?.ctrCurve, 'include', config?.bucketPriority, this.buckets)
+    this.annotations = new AnnotationCalendar(config?.annotations)
+    this.annotationPolicy = config?.annotationPolicy ?? 'exclude'
+    this.history = config?.history ?? null
+    this.date = toDateKey(config?.date ?? new Date())
+  }
+
+  setHistory(history: SnapshotHistory | null): void {
+    this.history = history
+  }
+
+  /**
+   * The day evaluations are made on: actions come due, the after window
+   * and annotation overlap end, and results are stamped relative to it
+   */
+  setDate(date: Date | string): void {
+    this.date = toDateKey(date)
+  }
+
+  getDate(): string {
+    return this.date
+  }
+
+  /**
+   * Before/after windows around the action, when both hold enough
+   * snapshots. The after window ends by the evaluation date.
+   */
+  getWindows(action: SEOAction): { before: MetricWindow; after: MetricWindow } | null {
+    if (!this.history) return null
+
+    const { before, after } = this.history.getWindowsAround(
+      action.url,
+      action.actionDate,
+      this.windowDays,
+      this.date
+    )
+    if (!before || !after) return null
+    if (before.days < this.minDataDays || after.days < this.minDataDays) return null
+
+    return { before, after }
+  }
+
+  /**
+   * Un-actioned look-alikes for a windowed evaluation. Needs history on
+   * both the action and the candidates; null when disabled or too few match.
+   */
+  findControlCohort(
+    action: SEOAction,
+    candidates: PageData[],
+    actionedUrls: Set<string> = new Set()
+  ): ControlCohort | null {
+    if (!this.history || this.controlCohort === false) return null
+
+    const windows = this.getWindows(action)
+    if (!windows) return null
+
+    const selector = new ControlCohortSelector(this.history, this.controlCohort, {
+      windowDays: this.windowDays,
+      minDataDays: this.minDataDays,
+      bucketer: this.bucketer,
+    })
+    return selector.select(action, windows, candidates, actionedUrls)
+  }
+
+  /**
+   * Annotations overlapping the action's evaluation period: both windows
+   * when history covers them, otherwise the action date through the
+   * evaluation date
+   */
+  getAnnotations(action: SEOAction): Annotation[] {
+    if (this.annotations.size === 0) return []
+
+    const windows = this.getWindows(action)
+    const start = windows ? windows.before.start : toDateKey(action.actionDate)
+    const end = windows ? windows.after.end : this.date
+    return this.annotations.between(start, end, action.siteId)
+  }
+
+  /**
+   * Major events that keep the action out of learning (none under 'flag')
+   */
+  getExclusions(action: SEOAction): Annotation[] {
+    if (this.annotationPolicy === 'flag') return []
+    return this.getAnnotations(action).filter(a => a.impact === 'major')
   }
 
   isReadyForEvaluation(action: SEOAction): boolean {
+    return this.isDue(action) && this.getExclusions(action).length === 0
+  }
+
+  private isDue(action: SEOAction): boolean {
     if (action.learningApplied) return false
     if (action.actionStatus !== 'completed') return false
 
-    const actionDate = new Date(action.actionDate)
-    const now = new Date()
-    const daysSinceAction = Math.floor(
-      (now.getTime() - actionDate.getTime()) / (1000 * 60 * 60 * 24)
-    )
+    const daysSinceAction = daysBetween(action.actionDate, this.date)
 
     if (daysSinceAction < this.evaluationDelayDays) return false
     if (daysSinceAction > this.maxActionAgeDays) return false
@@ -39,37 +201,117 @@ export class OutcomeEvaluator {
     return true
   }
 
-  evaluate(action: SEOAction, currentPageData: PageData): EvaluationResult {
-    const deltaTraffic = currentPageData.clicks - action.originalClicks
-    const deltaPosition = action.originalPosition - currentPageData.position
-    const deltaCtr = currentPageData.ctr - action.originalCtr
-    const deltaImpressions = currentPageData.impressions - action.originalImpressions
+  /**
+   * Score an action. Windowed averages are preferred; otherwise the
+   * action's original metrics are compared with `currentPageData`.
+   * Never mixes the two — a window average and a point value aren't on the same scale.
+   * With a control cohort (windows only), success is judged on the
+   * difference-in-differences uplift rather than the raw change.
+   * The returned `action` is a copy with `result*`, `outcome`,
+   * `successScore` and `learningApplied` written back.
+   */
+  evaluate(
+    action: SEOAction,
+    currentPageData?: Metrics,
+    control?: ControlCohort | null
+  ): EvaluationResult {
+    const windows = this.getWindows(action)
+
+    let baseline: Sample
+    let current: Sample
+    if (windows) {
+      baseline = this.toWindowSample(action.url, windows.before)
+      current = this.toWindowSample(action.url, windows.after)
+    } else if (currentPageData) {
+      baseline = {
+        metrics: {
+          clicks: action.originalClicks,
+          impressions: action.originalImpressions,
+          ctr: action.originalCtr,
+          position: action.originalPosition,
+          conversions: action.originalConversions,
+        },
+        periods: 1,
+      }
+      current = { metrics: currentPageData, periods: 1 }
+    } else {
+      throw new Error(`No current data or snapshot history for ${action.url}`)
+    }
 
-    const criteria = SUCCESS_CRITERIA[action.actionType]
+    const before = baseline.metrics
+    const after = current.metrics
+    const deltaTraffic = after.clicks - before.clicks
+    const deltaPosition = before.position - after.position
+    const deltaCtr = after.ctr - before.ctr
+    const deltaImpressions = after.impressions - before.impressions
+
+    const criteria = getSuccessCriteria(action.actionType, this.buckets)
+    const bucket = action.actionType
+
+    // Counterfactual: where the page would be had it moved like the cohort
+    const adjusted = windows && control ? this.applyControl(baseline, control) : baseline
+    const uplift = this.getMetricChange(bucket, adjusted.metrics, after)
+    const comparison: ControlComparison | undefined = windows && control
+      ? {
+          urls: control.urls,
+          before: control.before,
+          after: control.after,
+          treatedChange: this.getMetricChange(bucket, before, after),
+          controlChange: this.getMetricChange(bucket, control.before, control.after),
+          uplift,
+        }
+      : undefined
 
-    const { success, score } = this.evaluateSuccess(
-      action.actionType,
-      action,
-      currentPageData
+    const { outcome, score, significance } = this.evaluateSuccess(
+      bucket,
+      adjusted,
+      current
     )
+    const success = outcome === 'success'
+    const annotations = this.getAnnotations(action)
+    const evaluatedAt = new Date(`${this.date}T00:00:00Z`).toISOString()
 
     const learningLog: LearningLog = {
-      date: new Date().toISOString().split('T')[0],
+      date: this.date,
       action: `${action.actionType} on ${action.url.split('/').pop()}`,
       result: success
-        ? this.formatSuccessResult(action.actionType, action, currentPageData)
-        : 'No significant improvement',
-      weightAdj: success ? `+${action.actionType}` : 'None',
+        ? this.formatSuccessResult(bucket, adjusted.metrics, after) +
+          (comparison ? ` vs. ${comparison.urls.length} control pages` : '')
+        : outcome === 'inconclusive'
+          ? `Inconclusive: ${significance.reason}`
+          : 'No significant improvement',
+      weightAdj: success ? `+${action.actionType}` : outcome === 'inconclusive' ? 'Skipped' : 'None',
       details: {
         url: action.url,
         actionType: action.actionType,
-        deltaMetric: this.getPrimaryDelta(action.actionType, action, currentPageData),
+        deltaMetric: this.getPrimaryDelta(action.actionType, before, after),
         metricType: criteria.metric,
       },
     }
+    if (annotations.length > 0) {
+      learningLog.result += ` (overlaps ${formatAnnotations(annotations)})`
+      learningLog.annotations = annotations
+    }
+
+    // Window basis: result* are after-window daily averages
+    const evaluatedAction: SEOAction = {
+      ...action,
+      resultClicks: after.clicks,
+      resultImpressions: after.impressions,
+      resultCtr: after.ctr,
+      resultPosition: after.position,
+      resultConversions: after.conversions,
+      resultDeltaTraffic: deltaTraffic,
+      outcome,
+      learningApplied: outcome !== 'inconclusive',
+      successScore: score,
+      successCriteria: criteria.description,
+      learningNotes: learningLog.result,
+      evaluatedAt,
+    }
 
     return {
-      action,
+      action: evaluatedAction,
       success,
       successScore: score,
       criteria: criteria.description,
@@ -77,127 +319,296 @@ export class OutcomeEvaluator {
       deltaPosition,
       deltaCtr,
       deltaImpressions,
+      outcome,
+      significance,
+      uplift,
+      control: comparison,
+      basis: windows ? 'window' : 'point',
+      windows: windows ?? undefined,
+      annotations: annotations.length > 0 ? annotations : undefined,
       learningLog,
     }
   }
 
+  /**
+   * Shift the baseline by the cohort's own before → after movement
+   */
+  private applyControl(baseline: Sample, control: ControlCohort): Sample {
+    const ratio = (from: number, to: number) => (from > 0 ? to / from : 1)
+    const { before, after } = control
+    const metrics = baseline.metrics
+
+    const clicks = metrics.clicks * ratio(before.clicks, after.clicks)
+    const impressions = metrics.impressions * ratio(before.impressions, after.impressions)
+    const positionShift = after.position - before.position
+
+    return {
+      metrics: {
+        clicks,
+        impressions,
+        ctr: impressions > 0 ? clicks / impressions : metrics.ctr * ratio(before.ctr, after.ctr),
+        position: metrics.position + positionShift,
+        conversions: metrics.conversions * ratio(before.conversions, after.conversions),
+      },
+      periods: baseline.periods,
+      positions: baseline.positions?.map(p => p + positionShift),
+    }
+  }
+
+  /**
+   * The bucket's success metric: relative change for CTR, impressions,
+   * clicks and conversions; positions gained for position buckets
+   */
+  private getMetricChange(bucket: ActionBucket, before: Metrics, after: Metrics): number {
+    const { metric } = getSuccessCriteria(bucket, this.buckets)
+    return metric === 'position'
+      ? before.position - after.position
+      : relativeChange(before[metric], after[metric])
+  }
+
+  private toWindowSample(url: string, window: MetricWindow): Sample {
+    return {
+      metrics: window,
+      periods: window.days,
+      positions: this.history
+        ?.getSnapshots(url, window.start, window.end)
+        .filter(s => s.impressions > 0)
+        .map(s => s.position),
+    }
+  }
+
+  /**
+   * Per bucket: the change in its success metric must clear the
+   * threshold and be significant at `significance.level`. Below the
+   * sample minimums, or a large-but-noisy change, is inconclusive.
+   */
   private evaluateSuccess(
     bucket: ActionBucket,
-    action: SEOAction,
-    current: PageData
-  ): { success: boolean; score: number; description: string } {
-    const criteria = SUCCESS_CRITERIA[bucket]
-
-    switch (bucket) {
-      case 'CTR_FIX': {
-        const ctrChange = action.originalCtr > 0
-          ? (current.ctr - action.originalCtr) / action.originalCtr
-          : 0
-        return {
-          success: ctrChange >= criteria.improvement,
-          score: Math.min(ctrChange / criteria.improvement, 1),
-          description: criteria.description,
+    baseline: Sample,
+    current: Sample
+  ): Verdict {
+    const criteria = getSuccessCriteria(bucket, this.buckets)
+    const { minImpressions, minClicks } = this.significance
+    const before = baseline.metrics
+    const after = current.metrics
+
+    const impressions1 = before.impressions * baseline.periods
+    const impressions2 = after.impressions * current.periods
+    const clicks1 = before.clicks * baseline.periods
+    const clicks2 = after.clicks * current.periods
+
+    switch (criteria.metric) {
+      case 'ctr': {
+        const ctrChange = relativeChange(before.ctr, after.ctr)
+        const sampleSize = Math.round(impressions1 + impressions2)
+        if (Math.min(impressions1, impressions2) < minImpressions) {
+          return this.inconclusive('proportion', sampleSize, `fewer than ${minImpressions} impressions per side`)
         }
+        const test = proportionTest(clicks1, impressions1, clicks2, impressions2)
+        return this.decide(ctrChange, criteria.improvement, {
+          test: 'proportion',
+          pValue: test.pValue,
+          sampleSize,
+        })
       }
 
-      case 'STRIKING_DISTANCE': {
-        const positionImproved = action.originalPosition - current.position
-        return {
-          success: positionImproved >= criteria.improvement,
-          score: Math.min(positionImproved / criteria.improvement, 1),
-          description: criteria.description,
-        }
+      case 'position': {
+        if (criteria.maintain) return this.testMaintained(baseline, current)
+        const positionImproved = before.position - after.position
+        return this.testPosition(positionImproved, criteria.improvement, baseline, current)
       }
 
-      case 'RELEVANCE_REBUILD': {
-        const impressionChange = action.originalImpressions > 0
-          ? (current.impressions - action.originalImpressions) / action.originalImpressions
-          : 0
-        return {
-          success: impressionChange >= criteria.improvement,
-          score: Math.min(impressionChange / criteria.improvement, 1),
-          description: criteria.description,
+      case 'impressions': {
+        const impressionChange = relativeChange(before.impressions, after.impressions)
+        const sampleSize = Math.round(impressions1 + impressions2)
+        if (sampleSize < minImpressions) {
+          return this.inconclusive('poisson', sampleSize, `fewer than ${minImpressions} impressions`)
         }
+        const test = poissonRateTest(impressions1, baseline.periods, impressions2, current.periods)
+        return this.decide(impressionChange, criteria.improvement, {
+          test: 'poisson',
+          pValue: test.pValue,
+          sampleSize,
+        })
       }
 
-      case 'LOCAL_BOOST': {
-        const clickChange = action.originalClicks > 0
-          ? (current.clicks - action.originalClicks) / action.originalClicks
-          : 0
-        return {
-          success: clickChange >= criteria.improvement,
-          score: Math.min(clickChange / criteria.improvement, 1),
-          description: criteria.description,
+      case 'clicks': {
+        const clickChange = relativeChange(before.clicks, after.clicks)
+        const sampleSize = Math.round(clicks1 + clicks2)
+        if (sampleSize < minClicks) {
+          return this.inconclusive('poisson', sampleSize, `fewer than ${minClicks} clicks`)
         }
+        const test = poissonRateTest(clicks1, baseline.periods, clicks2, current.periods)
+        return this.decide(clickChange, criteria.improvement, {
+          test: 'poisson',
+          pValue: test.pValue,
+          sampleSize,
+        })
       }
 
-      case 'MONITOR': {
-        const positionMaintained = current.position <= action.originalPosition
-        return {
-          success: positionMaintained,
-          score: positionMaintained ? 1 : 0,
-          description: criteria.description,
+      case 'conversions': {
+        const conversions1 = before.conversions * baseline.periods
+        const conversions2 = after.conversions * current.periods
+        const conversionChange = relativeChange(before.conversions, after.conversions)
+        const sampleSize = Math.round(conversions1 + conversions2)
+        if (sampleSize < minClicks) {
+          return this.inconclusive('poisson', sampleSize, `fewer than ${minClicks} conversions`)
         }
+        const test = poissonRateTest(conversions1, baseline.periods, conversions2, current.periods)
+        return this.decide(conversionChange, criteria.improvement, {
+          test: 'poisson',
+          pValue: test.pValue,
+          sampleSize,
+        })
       }
-
-      default:
-        return { success: false, score: 0, description: 'Unknown action type' }
     }
   }
 
-  private getPrimaryDelta(
-    bucket: ActionBucket,
-    action: SEOAction,
-    current: PageData
-  ): number {
-    switch (bucket) {
-      case 'CTR_FIX': return current.ctr - action.originalCtr
-      case 'STRIKING_DISTANCE': return action.originalPosition - current.position
-      case 'RELEVANCE_REBUILD': return current.impressions - action.originalImpressions
-      case 'LOCAL_BOOST': return current.clicks - action.originalClicks
-      case 'MONITOR': return action.originalPosition - current.position
-      default: return 0
+  /**
+   * Position gain: t-test on daily positions when history has enough days,
+   * else a threshold check guarded by impressions
+   */
+  private testPosition(
+    improvement: number,
+    threshold: number,
+    baseline: Sample,
+    current: Sample
+  ): Verdict {
+    const days = this.getPositionSamples(baseline, current)
+    if (days) {
+      // Lower is better: test whether negated positions went up
+      const test = welchTTest(days.before.map(p => -p), days.after.map(p => -p))
+      return this.decide(improvement, threshold, {
+        test: 't-test',
+        pValue: test.pValue,
+        sampleSize: days.before.length + days.after.length,
+      })
+    }
+
+    const { minImpressions } = this.significance
+    const impressions1 = baseline.metrics.impressions * baseline.periods
+    const impressions2 = current.metrics.impressions * current.periods
+    const sampleSize = Math.round(impressions1 + impressions2)
+    if (Math.min(impressions1, impressions2) < minImpressions) {
+      return this.inconclusive('threshold', sampleSize, `fewer than ${minImpressions} impressions per side`)
     }
+    return this.decide(improvement, threshold, { test: 'threshold', pValue: null, sampleSize })
   }
 
-  private formatSuccessResult(
-    bucket: ActionBucket,
-    action: SEOAction,
-    current: PageData
-  ): string {
-    switch (bucket) {
-      case 'CTR_FIX': {
-        const ctrChange = action.originalCtr > 0
-          ? Math.round(((current.ctr - action.originalCtr) / action.originalCtr) * 100)
-          : 0
-        return `+${ctrChange}% CTR`
+  /**
+   * Maintain buckets (MONITOR) succeed unless the position got
+   * (significantly) worse
+   */
+  private testMaintained(baseline: Sample, current: Sample): Verdict {
+    const days = this.getPositionSamples(baseline, current)
+    if (days) {
+      const test = welchTTest(days.before, days.after)
+      const worse = test.pValue < this.significance.level
+      return {
+        outcome: worse ? 'failure' : 'success',
+        score: worse ? 0 : 1,
+        significance: {
+          test: 't-test',
+          pValue: test.pValue,
+          sampleSize: days.before.length + days.after.length,
+        },
       }
+    }
 
-      case 'STRIKING_DISTANCE': {
-        const posChange = (action.originalPosition - current.position).toFixed(1)
-        return `+${posChange} positions`
-      }
+    const { minImpressions } = this.significance
+    const impressions1 = baseline.metrics.impressions * baseline.periods
+    const impressions2 = current.metrics.impressions * current.periods
+    const sampleSize = Math.round(impressions1 + impressions2)
+    if (Math.min(impressions1, impressions2) < minImpressions) {
+      return this.inconclusive('threshold', sampleSize, `fewer than ${minImpressions} impressions per side`)
+    }
 
-      case 'RELEVANCE_REBUILD': {
-        const impChange = action.originalImpressions > 0
-          ? Math.round(((current.impressions - action.originalImpressions) / action.originalImpressions) * 100)
-          : 0
-        return `+${impChange}% impressions`
-      }
+    const maintained = current.metrics.position <= baseline.metrics.position
+    return {
+      outcome: maintained ? 'success' : 'failure',
+      score: maintained ? 1 : 0,
+      significance: { test: 'threshold', pValue: null, sampleSize },
+    }
+  }
+
+  private getPositionSamples(
+    baseline: Sample,
+    current: Sample
+  ): { before: number[]; after: number[] } | null {
+    const before = baseline.positions ?? []
+    const after = current.positions ?? []
+    if (before.length < this.minDataDays || after.length < this.minDataDays) return null
+    return { before, after }
+  }
 
-      case 'LOCAL_BOOST': {
-        const clickChange = action.originalClicks > 0
-          ? Math.round(((current.clicks - action.originalClicks) / action.originalClicks) * 100)
-          : 0
-        return `+${clickChange}% clicks`
+  private decide(
+    change: number,
+    threshold: number,
+    significance: SignificanceResult
+  ): Verdict {
+    const score = Math.min(change / threshold, 1)
+
+    if (change < threshold) {
+      return { outcome: 'failure', score, significance }
+    }
+
+    const { level } = this.significance
+    if (significance.pValue !== null && significance.pValue >= level) {
+      return {
+        outcome: 'inconclusive',
+        score,
+        significance: {
+          ...significance,
+          reason: `p = ${significance.pValue.toFixed(3)} ≥ ${level}`,
+        },
       }
+    }
+
+    return { outcome: 'success', score, significance }
+  }
 
-      case 'MONITOR':
-        return 'Position maintained'
+  private inconclusive(
+    test: SignificanceResult['test'],
+    sampleSize: number,
+    reason: string
+  ): Verdict {
+    return {
+      outcome: 'inconclusive',
+      score: 0,
+      significance: { test, pValue: null, sampleSize, reason },
+    }
+  }
+
+  private getPrimaryDelta(
+    bucket: ActionBucket,
+    baseline: Metrics,
+    current: Metrics
+  ): number {
+    const { metric } = getSuccessCriteria(bucket, this.buckets)
+    return metric === 'position'
+      ? baseline.position - current.position
+      : current[metric] - baseline[metric]
+  }
 
-      default:
-        return 'Improved'
+  private formatSuccessResult(
+    bucket: ActionBucket,
+    baseline: Metrics,
+    current: Metrics
+  ): string {
+    const criteria = getSuccessCriteria(bucket, this.buckets)
+
+    if (criteria.metric === 'position') {
+      if (criteria.maintain) return 'Position maintained'
+      const posChange = (baseline.position - current.position).toFixed(1)
+      return `+${posChange} positions`
     }
+
+    const { metric } = criteria
+    const change = baseline[metric] > 0
+      ? Math.round(((current[metric] - baseline[metric]) / baseline[metric]) * 100)
+      : 0
+    const label = metric === 'ctr' ? 'CTR' : metric
+    return `+${change}% ${label}`
   }
 
   batchEvaluate(
@@ -206,49 +617,117 @@ export class OutcomeEvaluator {
   ): BatchEvaluationResult {
     const evaluated: EvaluationResult[] = []
     const skipped: SEOAction[] = []
+    const excluded: SEOAction[] = []
     const learningLogs: LearningLog[] = []
 
+    // Control candidates: every known page that has no action of its own
+    const candidates = Array.from(currentPageDataMap.values())
+    const actionedUrls = new Set(actions.map(a => a.url))
+
     for (const action of actions) {
-      if (!this.isReadyForEvaluation(action)) {
+      if (!this.isDue(action)) {
         skipped.push(action)
         continue
       }
 
+      // Its bucket was removed: no success criteria to judge it by
+      if (!isKnownBucket(action.actionType, this.buckets)) {
+        const result = `Excluded: unknown bucket "${action.actionType}"`
+        excluded.push({
+          ...action,
+          learningApplied: true,
+          learningNotes: result,
+          evaluatedAt: new Date(`${this.date}T00:00:00Z`).toISOString(),
+        })
+        learningLogs.push({
+          date: this.date,
+          action: `${action.actionType} on ${action.url.split('/').pop()}`,
+          result,
+          weightAdj: 'Skipped',
+        })
+        continue
+      }
+
+      const exclusions = this.getExclusions(action)
+      if (exclusions.length > 0) {
+        // Closed out: the windows will always straddle the event
+        const result = `Excluded: overlaps ${formatAnnotations(exclusions)}`
+        excluded.push({
+          ...action,
+          learningApplied: true,
+          learningNotes: result,
+          evaluatedAt: new Date(`${this.date}T00:00:00Z`).toISOString(),
+        })
+        learningLogs.push({
+          date: this.date,
+          action: `${action.actionType} on ${action.url.split('/').pop()}`,
+          result,
+          weightAdj: 'Skipped',
+          annotations: exclusions,
+        })
+        continue
+      }
+
       const currentData = currentPageDataMap.get(action.url)
-      if (!currentData) {
+      if (!currentData && !this.getWindows(action)) {
         skipped.push(action)
         continue
       }
 
-      const result = this.evaluate(action, currentData)
+      const control = this.findControlCohort(action, candidates, actionedUrls)
+      const result = this.evaluate(action, currentData, control)
       evaluated.push(result)
       learningLogs.push(result.learningLog)
     }
 
-    const successful = evaluated.filter(e => e.success).length
+    const successful = evaluated.filter(e => e.outcome === 'success').length
+    const failed = evaluated.filter(e => e.outcome === 'failure').length
     const total = evaluated.length
 
     return {
       evaluated,
       skipped,
+      excluded,
       stats: {
         total,
         successful,
-        failed: total - successful,
-        successRate: total > 0 ? successful / total : 0,
+        failed,
+        inconclusive: total - successful - failed,
+        successRate: successful + failed > 0 ? successful / (successful + failed) : 0,
       },
       learningLogs,
     }
   }
 }
 
-export function createOutcomeEvaluator(config?: {
-  evaluationDelayDays?: number
-  maxActionAgeDays?: number
-}): OutcomeEvaluator {
+export function createOutcomeEvaluator(config?: OutcomeEvaluatorConfig): OutcomeEvaluator {
   return new OutcomeEvaluator(config)
 }
 
+/**
+ * Evaluate one action against its recorded `result*` metrics
+ */
+export function evaluateAction(action: SEOAction): EvaluationResult {
+  const { resultClicks, resultImpressions, resultCtr, resultPosition } = action
+  if (
+    resultClicks === undefined ||
+    resultImpressions === undefined ||
+    resultCtr === undefined ||
+    resultPosition === undefined
+  ) {
+    throw new Error(`Action on ${action.url} has no result metrics to evaluate`)
+  }
+
+  const evaluator = new OutcomeEvaluator()
+  return evaluator.evaluate(action, {
+    clicks: resultClicks,
+    impressions: resultImpressions,
+    ctr: resultCtr,
+    position: resultPosition,
+    conversions: action.resultConversions ?? 0,
+  })
+}
+
 export function isActionReadyForEvaluation(action: SEOAction): boolean {
   const evaluator = new OutcomeEvaluator()
   return evaluator.isReadyForEvaluation(action)
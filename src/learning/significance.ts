@@ -0,0 +1,164 @@
+// ============================================================
+// cr0n-engine — Significance Tests
+// One-sided tests for "did the metric improve?"
+// Proportion (CTR), Poisson rate (clicks, impressions),
+// Welch's t-test (daily positions)
+// ============================================================
+
+export interface TestResult {
+  statistic: number
+  pValue: number          // One-sided: probability of a gain this large by chance
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * ln Γ(x), Lanczos approximation
+ */
+export function logGamma(x: number): number {
+  const g = 7
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ]
+
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+  }
+
+  x -= 1
+  let a = c[0]
+  const t = x + g + 0.5
+  for (let i = 1; i < g + 2; i++) a += c[i] / (x + i)
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
+}
+
+/**
+ * Regularized incomplete beta I_x(a, b), via Lentz's continued fraction
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  )
+
+  // The fraction converges fastest below the mean; use the symmetry otherwise
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - incompleteBeta(1 - x, b, a)
+  }
+
+  const tiny = 1e-30
+  let f = 1
+  let c = 1
+  let d = 0
+
+  for (let i = 0; i <= 300; i++) {
+    const m = Math.floor(i / 2)
+    let numerator: number
+    if (i === 0) {
+      numerator = 1
+    } else if (i % 2 === 0) {
+      numerator = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m))
+    } else {
+      numerator = -((a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1))
+    }
+
+    d = 1 + numerator * d
+    if (Math.abs(d) < tiny) d = tiny
+    d = 1 / d
+
+    c = 1 + numerator / c
+    if (Math.abs(c) < tiny) c = tiny
+
+    const delta = c * d
+    f *= delta
+    if (Math.abs(1 - delta) < 1e-10) break
+  }
+
+  return (front * (f - 1)) / a
+}
+
+/**
+ * P(T > t) for Student's t with `df` degrees of freedom
+ */
+export function studentTUpperTail(t: number, df: number): number {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5)
+  return t >= 0 ? tail : 1 - tail
+}
+
+/**
+ * P(X ≥ k) for X ~ Binomial(n, p)
+ */
+export function binomialUpperTail(k: number, n: number, p: number): number {
+  if (k <= 0) return 1
+  if (k > n) return 0
+  return incompleteBeta(p, k, n - k + 1)
+}
+
+/**
+ * Two-proportion z-test: is x2/n2 greater than x1/n1?
+ */
+export function proportionTest(x1: number, n1: number, x2: number, n2: number): TestResult {
+  if (n1 <= 0 || n2 <= 0) return { statistic: 0, pValue: 1 }
+
+  const p1 = x1 / n1
+  const p2 = x2 / n2
+  const pooled = (x1 + x2) / (n1 + n2)
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2))
+
+  if (se === 0) return { statistic: 0, pValue: p2 > p1 ? 0 : 1 }
+
+  const z = (p2 - p1) / se
+  return { statistic: z, pValue: 1 - normalCdf(z) }
+}
+
+/**
+ * Poisson rate test: is c2/t2 greater than c1/t1? Exact, via the
+ * conditional binomial — given c1 + c2 events, c2 ~ Bin(n, t2 / (t1 + t2)).
+ */
+export function poissonRateTest(c1: number, t1: number, c2: number, t2: number): TestResult {
+  const n = Math.round(c1 + c2)
+  if (n === 0 || t1 <= 0 || t2 <= 0) return { statistic: 0, pValue: 1 }
+
+  const p = t2 / (t1 + t2)
+  const k = Math.round(c2)
+  const statistic = (k - n * p) / Math.sqrt(n * p * (1 - p))
+  return { statistic, pValue: binomialUpperTail(k, n, p) }
+}
+
+/**
+ * Welch's t-test: is mean(current) greater than mean(baseline)?
+ */
+export function welchTTest(baseline: number[], current: number[]): TestResult {
+  const n1 = baseline.length
+  const n2 = current.length
+  if (n1 < 2 || n2 < 2) return { statistic: 0, pValue: 1 }
+
+  const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length
+  const variance = (xs: number[], m: number) =>
+    xs.reduce((sum, x) => sum + (x - m) ** 2, 0) / (xs.length - 1)
+
+  const m1 = mean(baseline)
+  const m2 = mean(current)
+  const v1 = variance(baseline, m1) / n1
+  const v2 = variance(current, m2) / n2
+  const se = Math.sqrt(v1 + v2)
+
+  if (se === 0) return { statistic: 0, pValue: m2 > m1 ? 0 : 1 }
+
+  const t = (m2 - m1) / se
+  const df = (v1 + v2) ** 2 / (v1 ** 2 / (n1 - 1) + v2 ** 2 / (n2 - 1))
+  return { statistic: t, pValue: studentTUpperTail(t, df) }
+}
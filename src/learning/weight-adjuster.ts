@@ -1,159 +1,226 @@
 // ============================================================
 // cr0n-engine — Content Weight Adjuster
 // Dimension 1: Learns which metrics matter most for scoring
+// Keeps a global vector plus one per action bucket
+// Credit follows the score components captured at action time
 // ============================================================
 
 import type {
   WeightConfig,
   LearningConfig,
   WeightAdjustment,
-  SEOAction,
+  WeightUpdate,
+  WeightVelocity,
   ActionBucket,
+  BucketWeights,
+  EvaluationResult,
+  NormalizedScores,
+  SEOAction,
 } from '../core/types.js'
-import { DEFAULT_WEIGHTS, DEFAULT_LEARNING_CONFIG, SUCCESS_CRITERIA } from '../core/constants.js'
+import { DEFAULT_WEIGHTS, DEFAULT_LEARNING_CONFIG, getBucketCreditWeight, isKnownBucket } from '../core/constants.js'
+import { cloneBucketWeights } from '../engine/scorer.js'
+import type { BucketRegistry } from '../core/buckets.js'
+
+const WEIGHT_KEYS: Array<keyof WeightConfig> = ['impressions', 'position', 'ctrGap', 'conversions', 'freshness']
+
+function mapWeights(fn: (key: keyof WeightConfig) => number): WeightConfig {
+  return {
+    impressions: fn('impressions'),
+    position: fn('position'),
+    ctrGap: fn('ctrGap'),
+    conversions: fn('conversions'),
+    freshness: fn('freshness'),
+  }
+}
 
 export interface LearningResult {
   newWeights: WeightConfig
-  adjustments: WeightAdjustment[]
+  newBucketWeights: BucketWeights
+  adjustments: WeightAdjustment[]  // Net change per weight over the cycle
+  updates: WeightUpdate[]          // Every step, in order
   totalLearningCycles: number
 }
 
 export class WeightAdjuster {
   private weights: WeightConfig
+  private bucketWeights: BucketWeights
+  private velocity: WeightVelocity = {}
   private config: LearningConfig
   private learningCycles: number
+  private buckets?: BucketRegistry
 
   constructor(
     weights?: Partial<WeightConfig>,
     config?: Partial<LearningConfig>,
-    learningCycles: number = 0
+    learningCycles: number = 0,
+    bucketWeights?: BucketWeights,
+    buckets?: BucketRegistry
   ) {
     this.weights = { ...DEFAULT_WEIGHTS, ...weights }
+    this.bucketWeights = cloneBucketWeights(bucketWeights)
     this.config = { ...DEFAULT_LEARNING_CONFIG, ...config }
     this.learningCycles = learningCycles
+    this.buckets = buckets
   }
 
-  evaluateActionSuccess(action: SEOAction): { success: boolean; score: number; criteria: string } {
-    const criteria = SUCCESS_CRITERIA[action.actionType]
-
-    if (!criteria) {
-      return { success: false, score: 0, criteria: 'Unknown action type' }
-    }
-
-    const { metric, improvement, description } = criteria
-
-    let delta = 0
-    let baseValue = 0
-    let resultValue = 0
-
-    switch (metric) {
-      case 'ctr':
-        baseValue = action.originalCtr
-        resultValue = action.resultCtr ?? baseValue
-        delta = baseValue > 0 ? (resultValue - baseValue) / baseValue : 0
-        break
-
-      case 'position':
-        baseValue = action.originalPosition
-        resultValue = action.resultPosition ?? baseValue
-        delta = baseValue - resultValue
-        break
-
-      case 'impressions':
-        baseValue = action.originalImpressions
-        resultValue = action.resultImpressions ?? baseValue
-        delta = baseValue > 0 ? (resultValue - baseValue) / baseValue : 0
-        break
-
-      case 'clicks':
-        baseValue = action.originalClicks
-        resultValue = action.resultClicks ?? baseValue
-        delta = baseValue > 0 ? (resultValue - baseValue) / baseValue : 0
-        break
+  /**
+   * Share of the reward each weight receives. A page's score is
+   * Σ w_k × s_k, so ∂score/∂w_k = s_k: components that drove the
+   * selection get the most credit (or blame). Without a scores snapshot,
+   * or with `credit: 'bucket'`, it all goes to the bucket's own metric.
+   */
+  getCredit(action: SEOAction): NormalizedScores {
+    const scores = action.scoresSnapshot
+    if (this.config.credit === 'gradient' && scores) {
+      const total = WEIGHT_KEYS.reduce((sum, key) => sum + Math.max(scores[key], 0), 0)
+      if (total > 0) return mapWeights(key => Math.max(scores[key], 0) / total)
     }
 
-    const successScore = Math.min(Math.max(delta / improvement, 0), 1)
-    const success = delta >= improvement
-
-    return { success, score: successScore, criteria: description }
+    const own = getBucketCreditWeight(action.actionType, this.buckets)
+    return mapWeights(key => (key === own ? 1 : 0))
   }
 
-  private getWeightKeyForBucket(bucket: ActionBucket): keyof WeightConfig {
-    switch (bucket) {
-      case 'CTR_FIX': return 'ctrGap'
-      case 'STRIKING_DISTANCE': return 'position'
-      case 'RELEVANCE_REBUILD': return 'impressions'
-      case 'LOCAL_BOOST': return 'conversions'
-      case 'MONITOR': return 'freshness'
+  private step(
+    target: ActionBucket | 'global',
+    weights: WeightConfig,
+    evaluation: EvaluationResult,
+    credit: NormalizedScores,
+    reward: number
+  ): WeightUpdate {
+    const { learningRate, momentum, minWeight, maxWeight } = this.config
+    const previous = this.velocity[target]
+
+    const gradient = mapWeights(key => learningRate * reward * credit[key])
+    const velocity = mapWeights(key => momentum * (previous?.[key] ?? 0) + gradient[key])
+    const before = { ...weights }
+
+    for (const key of WEIGHT_KEYS) {
+      weights[key] = Math.max(minWeight, Math.min(maxWeight, weights[key] + velocity[key]))
     }
-  }
-
-  private applyAdjustment(
-    weightKey: keyof WeightConfig,
-    delta: number,
-    reason: string
-  ): WeightAdjustment | null {
-    const { learningRate, minWeight, maxWeight } = this.config
-    const oldValue = this.weights[weightKey]
-
-    const adjustment = delta * learningRate
-    let newValue = oldValue + adjustment
-
-    newValue = Math.max(minWeight, Math.min(maxWeight, newValue))
+    this.velocity[target] = velocity
 
-    if (Math.abs(newValue - oldValue) < 0.0001) {
-      return null
+    return {
+      target,
+      url: evaluation.action.url,
+      bucket: evaluation.action.actionType,
+      outcome: evaluation.outcome,
+      reward,
+      credit,
+      gradient,
+      velocity,
+      before,
+      after: { ...weights },
     }
+  }
 
-    this.weights[weightKey] = newValue
+  /**
+   * Pull a vector part of the way back toward DEFAULT_WEIGHTS
+   */
+  private decay(weights: WeightConfig): void {
+    const { weightDecay } = this.config
+    if (weightDecay <= 0) return
 
-    return {
-      weight: weightKey,
-      oldValue: Math.round(oldValue * 10000) / 10000,
-      newValue: Math.round(newValue * 10000) / 10000,
-      reason,
+    for (const key of WEIGHT_KEYS) {
+      weights[key] += weightDecay * (DEFAULT_WEIGHTS[key] - weights[key])
     }
   }
 
-  private normalizeWeights(): void {
-    const total = Object.values(this.weights).reduce((sum, val) => sum + val, 0)
+  private normalizeWeights(weights: WeightConfig): void {
+    const total = Object.values(weights).reduce((sum, val) => sum + val, 0)
     if (total === 0) return
 
-    for (const key of Object.keys(this.weights) as Array<keyof WeightConfig>) {
-      this.weights[key] = Math.round((this.weights[key] / total) * 10000) / 10000
+    for (const key of Object.keys(weights) as Array<keyof WeightConfig>) {
+      weights[key] = Math.round((weights[key] / total) * 10000) / 10000
     }
   }
 
-  runLearningCycle(completedActions: SEOAction[]): LearningResult {
-    const adjustments: WeightAdjustment[] = []
+  /**
+   * Net change on one vector over the cycle, one entry per weight that moved
+   */
+  private summarize(
+    start: WeightConfig,
+    end: WeightConfig,
+    updates: WeightUpdate[],
+    bucket?: ActionBucket
+  ): WeightAdjustment[] {
+    const successes = updates.filter(u => u.outcome === 'success').length
+    const failures = updates.length - successes
+    const parts = [
+      updates.length > 0 ? `${successes} succeeded, ${failures} failed` : '',
+      this.config.weightDecay > 0 ? 'decay' : '',
+    ].filter(Boolean)
+    const reason = `${bucket ?? 'Global'}: ${parts.join(' + ') || 'renormalized'}`
+
+    return WEIGHT_KEYS
+      .filter(key => Math.abs(end[key] - start[key]) >= 0.0001)
+      .map(key => ({
+        ...(bucket ? { bucket } : {}),
+        weight: key,
+        oldValue: Math.round(start[key] * 10000) / 10000,
+        newValue: Math.round(end[key] * 10000) / 10000,
+        reason,
+      }))
+  }
 
-    for (const action of completedActions) {
-      if (action.learningApplied) continue
+  /**
+   * Learn from OutcomeEvaluator results. Inconclusive outcomes, and those
+   * of buckets no longer registered, are skipped.
+   *
+   * Order: every vector decays toward the defaults; then each outcome steps
+   * the global vector and its bucket's vector (seeded from the global one)
+   * by reward × credit, with momentum; finally each vector is renormalized.
+   * `updates` records every step so a cycle can be replayed exactly.
+   */
+  runLearningCycle(evaluations: EvaluationResult[]): LearningResult {
+    const updates: WeightUpdate[] = []
+    const startWeights = { ...this.weights }
+    const startBuckets = cloneBucketWeights(this.bucketWeights)
+
+    this.decay(this.weights)
+    for (const weights of Object.values(this.bucketWeights)) {
+      if (weights) this.decay(weights)
+    }
 
-      const evaluation = this.evaluateActionSuccess(action)
-      const weightKey = this.getWeightKeyForBucket(action.actionType)
+    const seed = { ...this.weights }
 
-      const delta = evaluation.success ? 1 : -0.5
+    for (const evaluation of evaluations) {
+      if (evaluation.outcome === 'inconclusive') continue
 
-      const adjustment = this.applyAdjustment(
-        weightKey,
-        delta,
-        evaluation.success
-          ? `${action.actionType} success on ${action.url.split('/').pop()}`
-          : `${action.actionType} did not meet criteria on ${action.url.split('/').pop()}`
-      )
+      const bucket = evaluation.action.actionType
+      if (!isKnownBucket(bucket, this.buckets)) continue
+      const bucketWeights = (this.bucketWeights[bucket] ??= { ...seed })
+      const reward = evaluation.success ? 1 : -0.5
+      const credit = this.getCredit(evaluation.action)
 
-      if (adjustment) {
-        adjustments.push(adjustment)
-      }
+      updates.push(this.step('global', this.weights, evaluation, credit, reward))
+      updates.push(this.step(bucket, bucketWeights, evaluation, credit, reward))
     }
 
-    this.normalizeWeights()
+    this.normalizeWeights(this.weights)
+    for (const weights of Object.values(this.bucketWeights)) {
+      if (weights) this.normalizeWeights(weights)
+    }
     this.learningCycles++
 
+    const adjustments = this.summarize(
+      startWeights,
+      this.weights,
+      updates.filter(u => u.target === 'global')
+    )
+    for (const [bucket, weights] of Object.entries(this.bucketWeights) as Array<[ActionBucket, WeightConfig]>) {
+      adjustments.push(...this.summarize(
+        startBuckets[bucket] ?? seed,
+        weights,
+        updates.filter(u => u.target === bucket),
+        bucket
+      ))
+    }
+
     return {
       newWeights: { ...this.weights },
+      newBucketWeights: cloneBucketWeights(this.bucketWeights),
       adjustments,
+      updates,
       totalLearningCycles: this.learningCycles,
     }
   }
@@ -162,6 +229,17 @@ export class WeightAdjuster {
     return { ...this.weights }
   }
 
+  /**
+   * Weights used to score a bucket's pages: its own vector, else the global one
+   */
+  getWeightsFor(bucket: ActionBucket): WeightConfig {
+    return { ...(this.bucketWeights[bucket] ?? this.weights) }
+  }
+
+  getBucketWeights(): BucketWeights {
+    return cloneBucketWeights(this.bucketWeights)
+  }
+
   getConfig(): LearningConfig {
     return { ...this.config }
   }
@@ -170,8 +248,21 @@ export class WeightAdjuster {
     return this.learningCycles
   }
 
+  /**
+   * Momentum state, to carry into the next cycle's adjuster
+   */
+  getVelocity(): WeightVelocity {
+    return JSON.parse(JSON.stringify(this.velocity))
+  }
+
+  setVelocity(velocity: WeightVelocity): void {
+    this.velocity = JSON.parse(JSON.stringify(velocity))
+  }
+
   resetWeights(): void {
     this.weights = { ...DEFAULT_WEIGHTS }
+    this.bucketWeights = {}
+    this.velocity = {}
   }
 
   setConfig(config: Partial<LearningConfig>): void {
@@ -182,12 +273,9 @@ export class WeightAdjuster {
 export function createWeightAdjuster(
   weights?: Partial<WeightConfig>,
   config?: Partial<LearningConfig>,
-  learningCycles?: number
+  learningCycles?: number,
+  bucketWeights?: BucketWeights,
+  buckets?: BucketRegistry
 ): WeightAdjuster {
-  return new WeightAdjuster(weights, config, learningCycles)
-}
-
-export function evaluateAction(action: SEOAction): { success: boolean; score: number; criteria: string } {
-  const adjuster = new WeightAdjuster()
-  return adjuster.evaluateActionSuccess(action)
+  return new WeightAdjuster(weights, config, learningCycles, bucketWeights, buckets)
 }
@@ -0,0 +1,128 @@
+// ============================================================
+// cr0n-engine — Weight Ledger
+// Versioned history of content and model weights, with diffs
+// ============================================================
+
+import type {
+  ActionBucket,
+  BucketWeights,
+  WeightChange,
+  WeightDiff,
+  WeightVersion,
+} from '../core/types.js'
+
+export class WeightLedger {
+  private versions: WeightVersion[]
+
+  constructor(versions: WeightVersion[] = []) {
+    this.versions = [...versions].sort((a, b) => a.version - b.version)
+  }
+
+  /**
+   * Append a version, numbered after the latest one. `date` stamps it,
+   * e.g. the cycle's date; default now.
+   */
+  record(entry: Omit<WeightVersion, 'version' | 'createdAt'>, date: Date | string = new Date()): WeightVersion {
+    const version: WeightVersion = {
+      ...clone(entry),
+      version: (this.latest()?.version ?? 0) + 1,
+      createdAt: new Date(date).toISOString(),
+    }
+    this.versions.push(version)
+    return clone(version)
+  }
+
+  get(version: number): WeightVersion | null {
+    const found = this.versions.find(v => v.version === version)
+    return found ? clone(found) : null
+  }
+
+  latest(): WeightVersion | null {
+    const last = this.versions[this.versions.length - 1]
+    return last ? clone(last) : null
+  }
+
+  list(): WeightVersion[] {
+    return clone(this.versions)
+  }
+
+  /**
+   * Changes from one version to another (default: the latest)
+   */
+  diff(from: number, to?: number): WeightDiff {
+    const a = this.get(from)
+    const b = to === undefined ? this.latest() : this.get(to)
+    if (!a) throw new Error(`Unknown weight version ${from}`)
+    if (!b) throw new Error(`Unknown weight version ${to}`)
+    return diffWeightVersions(a, b)
+  }
+
+  get size(): number {
+    return this.versions.length
+  }
+}
+
+export function diffWeightVersions(a: WeightVersion, b: WeightVersion): WeightDiff {
+  const changes: WeightChange[] = [
+    ...diffVector('content', 'global', a.weights, b.weights),
+  ]
+
+  const buckets = new Set([
+    ...Object.keys(a.bucketWeights),
+    ...Object.keys(b.bucketWeights),
+  ]) as Set<ActionBucket>
+  for (const bucket of buckets) {
+    // A bucket without its own vector is scored with the global one
+    changes.push(...diffVector(
+      'content',
+      bucket,
+      getBucketVector(a.bucketWeights, bucket, a.weights),
+      getBucketVector(b.bucketWeights, bucket, b.weights)
+    ))
+  }
+
+  const modelBuckets = new Set([
+    ...Object.keys(a.modelWeights),
+    ...Object.keys(b.modelWeights),
+  ]) as Set<ActionBucket>
+  for (const bucket of modelBuckets) {
+    changes.push(...diffVector('model', bucket, a.modelWeights[bucket] ?? {}, b.modelWeights[bucket] ?? {}))
+  }
+
+  return { from: a.version, to: b.version, changes }
+}
+
+function getBucketVector(
+  bucketWeights: BucketWeights,
+  bucket: ActionBucket,
+  fallback: object
+): Record<string, number> {
+  return { ...(bucketWeights[bucket] ?? fallback) }
+}
+
+function diffVector(
+  vector: WeightChange['vector'],
+  target: WeightChange['target'],
+  a: object,
+  b: object
+): WeightChange[] {
+  const before = a as Record<string, number>
+  const after = b as Record<string, number>
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  return Array.from(keys)
+    .map(weight => {
+      const from = before[weight] ?? 0
+      const to = after[weight] ?? 0
+      return { vector, target, weight, from, to, delta: Math.round((to - from) * 10000) / 10000 }
+    })
+    .filter(change => change.delta !== 0)
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+export function createWeightLedger(versions?: WeightVersion[]): WeightLedger {
+  return new WeightLedger(versions)
+}
@@ -0,0 +1,335 @@
+// ============================================================
+// cr0n-engine — File System State Store
+// JSON files under .cr0n/state/, one generation directory per commit,
+// swapped in by renaming a pointer file
+// ============================================================
+
+import { mkdir, readFile, writeFile, rename, rm, readdir, link, copyFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import type {
+  WeightConfig,
+  BucketWeights,
+  ModelWeights,
+  ModelPosteriors,
+  SEOAction,
+  AnalysisRun,
+  DailyPlan,
+  PageSnapshot,
+  WeightVersion,
+  WeightVelocity,
+} from '../core/types.js'
+import type {
+  StateStore,
+  StateSnapshot,
+  StateCommit,
+  StateStoreLimits,
+} from './types.js'
+import { applyCommit } from './memory-store.js'
+
+export const DEFAULT_STATE_DIR = join('.cr0n', 'state')
+
+const STATE_FILES: Record<keyof StateSnapshot, string> = {
+  weights: 'weights.json',
+  bucketWeights: 'bucket-weights.json',
+  modelWeights: 'model-weights.json',
+  modelPosteriors: 'model-posteriors.json',
+  weightVelocity: 'weight-velocity.json',
+  actions: 'actions.json',
+  runs: 'runs.json',
+  plans: 'plans.json',
+  snapshots: 'snapshots.json',
+  weightHistory: 'weight-history.json',
+}
+
+/** Names the live generation directory; absent in the older flat layout */
+const CURRENT_FILE = 'CURRENT'
+const GENERATION_PREFIX = 'gen-'
+
+export interface FileStateStoreOptions extends StateStoreLimits {
+  rootDir?: string    // Project root, default process.cwd()
+  stateDir?: string   // Relative to rootDir, default .cr0n/state
+}
+
+/**
+ * State is kept in generation directories (`gen-<stamp>/`) next to a
+ * CURRENT file naming the live one. A commit writes a complete new
+ * generation, hard-linking unchanged files, then renames a new CURRENT
+ * into place: readers see all of a commit or none of it. State written
+ * by earlier versions (files directly in the state directory) is read
+ * until the first commit moves it into a generation.
+ *
+ * Reads and commits are serialized within the process; one process
+ * should own a state directory at a time.
+ */
+export class FileStateStore implements StateStore {
+  private dir: string
+  private limits: StateStoreLimits
+  private queue: Promise<void> = Promise.resolve()
+  private recovered = false
+  private commits = 0
+
+  constructor(options: FileStateStoreOptions = {}) {
+    const rootDir = options.rootDir ?? process.cwd()
+    this.dir = resolve(rootDir, options.stateDir ?? DEFAULT_STATE_DIR)
+    this.limits = {
+      maxRuns: options.maxRuns,
+      maxPlans: options.maxPlans,
+      maxSnapshotDays: options.maxSnapshotDays,
+      maxWeightVersions: options.maxWeightVersions,
+    }
+  }
+
+  getDirectory(): string {
+    return this.dir
+  }
+
+  /**
+   * Run a task after every earlier read and commit has finished
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task)
+    this.queue = run.then(() => {}, () => {})
+    return run
+  }
+
+  /**
+   * Directory holding the live files: the generation CURRENT names,
+   * or the state directory itself before the first commit
+   */
+  private async getCurrentDir(): Promise<{ dir: string; generation: string | null }> {
+    try {
+      const generation = (await readFile(join(this.dir, CURRENT_FILE), 'utf-8')).trim()
+      return { dir: join(this.dir, generation), generation }
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return { dir: this.dir, generation: null }
+      throw new Error(`Failed to read ${CURRENT_FILE}: ${err?.message || err}`)
+    }
+  }
+
+  private async readFile<K extends keyof StateSnapshot>(
+    dir: string,
+    key: K,
+    fallback: StateSnapshot[K]
+  ): Promise<StateSnapshot[K]> {
+    try {
+      const raw = await readFile(join(dir, STATE_FILES[key]), 'utf-8')
+      return JSON.parse(raw)
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return fallback
+      throw new Error(`Failed to read ${STATE_FILES[key]}: ${err?.message || err}`)
+    }
+  }
+
+  private read<K extends keyof StateSnapshot>(
+    key: K,
+    fallback: StateSnapshot[K]
+  ): Promise<StateSnapshot[K]> {
+    return this.enqueue(async () => this.readFile((await this.getCurrentDir()).dir, key, fallback))
+  }
+
+  private async readAll(dir: string): Promise<StateSnapshot> {
+    return {
+      weights: await this.readFile(dir, 'weights', null),
+      bucketWeights: await this.readFile(dir, 'bucketWeights', null),
+      modelWeights: await this.readFile(dir, 'modelWeights', null),
+      modelPosteriors: await this.readFile(dir, 'modelPosteriors', null),
+      weightVelocity: await this.readFile(dir, 'weightVelocity', null),
+      actions: await this.readFile(dir, 'actions', []),
+      runs: await this.readFile(dir, 'runs', []),
+      plans: await this.readFile(dir, 'plans', []),
+      snapshots: await this.readFile(dir, 'snapshots', []),
+      weightHistory: await this.readFile(dir, 'weightHistory', []),
+    }
+  }
+
+  /**
+   * Remove what an interrupted commit left behind: temp files and
+   * generations CURRENT doesn't name, plus the flat-layout files once a
+   * generation has replaced them
+   */
+  private async removeLeftovers(): Promise<void> {
+    let entries: string[]
+    try {
+      entries = await readdir(this.dir)
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return
+      throw err
+    }
+
+    const { generation } = await this.getCurrentDir()
+    const stale = entries.filter(name =>
+      name.endsWith('.tmp') ||
+      (name.startsWith(GENERATION_PREFIX) && name !== generation) ||
+      (generation !== null && Object.values(STATE_FILES).includes(name))
+    )
+    await Promise.all(stale.map(name => rm(join(this.dir, name), { recursive: true, force: true })))
+  }
+
+  async loadWeights(): Promise<WeightConfig | null> {
+    return this.read('weights', null)
+  }
+
+  async saveWeights(weights: WeightConfig): Promise<void> {
+    await this.commit({ weights })
+  }
+
+  async loadBucketWeights(): Promise<BucketWeights | null> {
+    return this.read('bucketWeights', null)
+  }
+
+  async saveBucketWeights(bucketWeights: BucketWeights): Promise<void> {
+    await this.commit({ bucketWeights })
+  }
+
+  async loadModelWeights(): Promise<ModelWeights | null> {
+    return this.read('modelWeights', null)
+  }
+
+  async saveModelWeights(weights: ModelWeights): Promise<void> {
+    await this.commit({ modelWeights: weights })
+  }
+
+  async loadModelPosteriors(): Promise<ModelPosteriors | null> {
+    return this.read('modelPosteriors', null)
+  }
+
+  async saveModelPosteriors(posteriors: ModelPosteriors): Promise<void> {
+    await this.commit({ modelPosteriors: posteriors })
+  }
+
+  async loadWeightVelocity(): Promise<WeightVelocity | null> {
+    return this.read('weightVelocity', null)
+  }
+
+  async saveWeightVelocity(velocity: WeightVelocity): Promise<void> {
+    await this.commit({ weightVelocity: velocity })
+  }
+
+  async loadActions(siteId?: string): Promise<SEOAction[]> {
+    const actions = await this.read('actions', [])
+    return siteId ? actions.filter(a => a.siteId === siteId) : actions
+  }
+
+  async saveActions(actions: SEOAction[]): Promise<void> {
+    await this.commit({ actions })
+  }
+
+  async loadRuns(siteId?: string): Promise<AnalysisRun[]> {
+    const runs = await this.read('runs', [])
+    return siteId ? runs.filter(r => r.siteId === siteId) : runs
+  }
+
+  async saveRun(run: AnalysisRun): Promise<void> {
+    await this.commit({ run })
+  }
+
+  async loadPlans(siteId?: string): Promise<DailyPlan[]> {
+    const plans = await this.read('plans', [])
+    return siteId ? plans.filter(p => p.siteId === siteId) : plans
+  }
+
+  async savePlan(plan: DailyPlan): Promise<void> {
+    await this.commit({ plan })
+  }
+
+  async loadSnapshots(siteId?: string): Promise<PageSnapshot[]> {
+    const snapshots = await this.read('snapshots', [])
+    return siteId ? snapshots.filter(s => s.siteId === siteId) : snapshots
+  }
+
+  async saveSnapshots(snapshots: PageSnapshot[]): Promise<void> {
+    await this.commit({ snapshots })
+  }
+
+  async loadWeightHistory(): Promise<WeightVersion[]> {
+    return this.read('weightHistory', [])
+  }
+
+  async saveWeightVersion(version: WeightVersion): Promise<void> {
+    await this.commit({ weightVersions: [version] })
+  }
+
+  /**
+   * The first load also clears out anything an interrupted commit left
+   */
+  async load(siteId?: string): Promise<StateSnapshot> {
+    if (!this.recovered) {
+      this.recovered = true
+      await this.enqueue(() => this.removeLeftovers())
+    }
+    const state = await this.enqueue(async () => this.readAll((await this.getCurrentDir()).dir))
+    if (!siteId) return state
+
+    return {
+      ...state,
+      actions: state.actions.filter(a => a.siteId === siteId),
+      runs: state.runs.filter(r => r.siteId === siteId),
+      plans: state.plans.filter(p => p.siteId === siteId),
+      snapshots: state.snapshots.filter(s => s.siteId === siteId),
+    }
+  }
+
+  /**
+   * Write a new generation holding every file, then point CURRENT at it
+   * with a single rename. A failure before the rename leaves the previous
+   * state untouched.
+   */
+  commit(changes: StateCommit): Promise<void> {
+    return this.enqueue(() => this.writeCommit(changes))
+  }
+
+  private async writeCommit(changes: StateCommit): Promise<void> {
+    await mkdir(this.dir, { recursive: true })
+
+    const { dir: currentDir, generation: currentGeneration } = await this.getCurrentDir()
+    const current = await this.readAll(currentDir)
+    const next = applyCommit(current, changes, this.limits)
+
+    const stamp = `${Date.now()}-${process.pid}-${this.commits++}`
+    const generation = `${GENERATION_PREFIX}${stamp}`
+    const generationDir = join(this.dir, generation)
+    const pointerTmp = join(this.dir, `${CURRENT_FILE}.${stamp}.tmp`)
+
+    await mkdir(generationDir)
+    try {
+      for (const key of Object.keys(STATE_FILES) as Array<keyof StateSnapshot>) {
+        const file = STATE_FILES[key]
+        if (next[key] === current[key]) {
+          await this.carryOver(join(currentDir, file), join(generationDir, file))
+        } else {
+          await writeFile(join(generationDir, file), JSON.stringify(next[key], null, 2) + '\n', 'utf-8')
+        }
+      }
+      await writeFile(pointerTmp, generation + '\n', 'utf-8')
+      await rename(pointerTmp, join(this.dir, CURRENT_FILE))
+    } catch (err) {
+      await rm(generationDir, { recursive: true, force: true })
+      await rm(pointerTmp, { force: true })
+      throw err
+    }
+
+    // Committed; the replaced files are only clutter now
+    if (currentGeneration) {
+      await rm(currentDir, { recursive: true, force: true })
+    } else {
+      await Promise.all(Object.values(STATE_FILES).map(file => rm(join(this.dir, file), { force: true })))
+    }
+  }
+
+  /**
+   * Bring an unchanged file into the new generation: a hard link, or a
+   * copy where links aren't supported. Files never written stay absent.
+   */
+  private async carryOver(from: string, to: string): Promise<void> {
+    try {
+      await link(from, to)
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return
+      await copyFile(from, to)
+    }
+  }
+}
+
+export function createFileStateStore(options?: FileStateStoreOptions): FileStateStore {
+  return new FileStateStore(options)
+}
@@ -0,0 +1,271 @@
+// ============================================================
+// cr0n-engine — In-Memory State Store
+// Non-persistent backend for tests and short-lived processes
+// ============================================================
+
+import type {
+  WeightConfig,
+  BucketWeights,
+  ModelWeights,
+  ModelPosteriors,
+  SEOAction,
+  AnalysisRun,
+  DailyPlan,
+  PageSnapshot,
+  WeightVersion,
+  WeightVelocity,
+} from '../core/types.js'
+import type {
+  StateStore,
+  StateSnapshot,
+  StateCommit,
+  StateStoreLimits,
+} from './types.js'
+import { addDays } from '../data/history.js'
+
+const DEFAULT_MAX_RUNS = 365
+const DEFAULT_MAX_PLANS = 30
+const DEFAULT_MAX_SNAPSHOT_DAYS = 480  // GSC keeps 16 months
+const DEFAULT_MAX_WEIGHT_VERSIONS = 365
+
+/**
+ * Stable identity for an action: its id, or site + url + type + date
+ */
+export function getActionKey(action: SEOAction): string {
+  if (action.id) return action.id
+  return [action.siteId, action.url, action.actionType, action.actionDate].join('|')
+}
+
+/**
+ * Upsert actions by key, later entries win
+ */
+export function mergeActions(existing: SEOAction[], incoming: SEOAction[]): SEOAction[] {
+  const merged = new Map<string, SEOAction>()
+  for (const action of existing) merged.set(getActionKey(action), action)
+  for (const action of incoming) merged.set(getActionKey(action), action)
+  return Array.from(merged.values())
+}
+
+export function getSnapshotKey(snapshot: PageSnapshot): string {
+  return [snapshot.siteId, snapshot.url, snapshot.date].join('|')
+}
+
+/**
+ * Upsert snapshots by site + url + date, then drop those older than
+ * `maxDays` before the newest one
+ */
+export function mergeSnapshots(
+  existing: PageSnapshot[],
+  incoming: PageSnapshot[],
+  maxDays: number = DEFAULT_MAX_SNAPSHOT_DAYS
+): PageSnapshot[] {
+  const merged = new Map<string, PageSnapshot>()
+  for (const snapshot of existing) merged.set(getSnapshotKey(snapshot), snapshot)
+  for (const snapshot of incoming) merged.set(getSnapshotKey(snapshot), snapshot)
+
+  const all = Array.from(merged.values())
+  if (all.length === 0) return all
+
+  const newest = all.reduce((max, s) => (s.date > max ? s.date : max), all[0].date)
+  const cutoff = addDays(newest, -maxDays)
+  return all.filter(s => s.date >= cutoff)
+}
+
+/**
+ * Apply a commit to a snapshot, returning a new snapshot.
+ * Shared by every built-in backend so they agree on merge semantics.
+ */
+export function applyCommit(
+  state: StateSnapshot,
+  changes: StateCommit,
+  limits: StateStoreLimits = {}
+): StateSnapshot {
+  const maxRuns = limits.maxRuns ?? DEFAULT_MAX_RUNS
+  const maxPlans = limits.maxPlans ?? DEFAULT_MAX_PLANS
+  const maxWeightVersions = limits.maxWeightVersions ?? DEFAULT_MAX_WEIGHT_VERSIONS
+
+  const next: StateSnapshot = {
+    weights: changes.weights ? { ...changes.weights } : state.weights,
+    bucketWeights: changes.bucketWeights ? clone(changes.bucketWeights) : state.bucketWeights,
+    modelWeights: changes.modelWeights ? clone(changes.modelWeights) : state.modelWeights,
+    modelPosteriors: changes.modelPosteriors ? clone(changes.modelPosteriors) : state.modelPosteriors,
+    weightVelocity: changes.weightVelocity ? clone(changes.weightVelocity) : state.weightVelocity,
+    actions: changes.actions ? mergeActions(state.actions, clone(changes.actions)) : state.actions,
+    runs: state.runs,
+    plans: state.plans,
+    snapshots: changes.snapshots
+      ? mergeSnapshots(state.snapshots, clone(changes.snapshots), limits.maxSnapshotDays)
+      : state.snapshots,
+    weightHistory: state.weightHistory,
+  }
+
+  if (changes.run) {
+    next.runs = [...state.runs, clone(changes.run)].slice(-maxRuns)
+  }
+
+  if (changes.weightVersions?.length) {
+    const incoming = new Set(changes.weightVersions.map(v => v.version))
+    next.weightHistory = [
+      ...state.weightHistory.filter(v => !incoming.has(v.version)),
+      ...clone(changes.weightVersions),
+    ]
+      .sort((a, b) => a.version - b.version)
+      .slice(-maxWeightVersions)
+  }
+
+  if (changes.plan) {
+    const plan = changes.plan
+    next.plans = [
+      ...state.plans.filter(p => !(p.siteId === plan.siteId && p.date === plan.date)),
+      clone(plan),
+    ].slice(-maxPlans)
+  }
+
+  return next
+}
+
+export function createEmptyState(): StateSnapshot {
+  return {
+    weights: null,
+    bucketWeights: null,
+    modelWeights: null,
+    modelPosteriors: null,
+    weightVelocity: null,
+    actions: [],
+    runs: [],
+    plans: [],
+    snapshots: [],
+    weightHistory: [],
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function bySite<T extends { siteId: string }>(items: T[], siteId?: string): T[] {
+  return siteId ? items.filter(item => item.siteId === siteId) : items
+}
+
+export class MemoryStateStore implements StateStore {
+  private state: StateSnapshot
+  private limits: StateStoreLimits
+
+  constructor(initial?: Partial<StateSnapshot>, limits: StateStoreLimits = {}) {
+    this.state = { ...createEmptyState(), ...(initial ? clone(initial) : {}) }
+    this.limits = limits
+  }
+
+  async loadWeights(): Promise<WeightConfig | null> {
+    return this.state.weights ? { ...this.state.weights } : null
+  }
+
+  async saveWeights(weights: WeightConfig): Promise<void> {
+    await this.commit({ weights })
+  }
+
+  async loadBucketWeights(): Promise<BucketWeights | null> {
+    return this.state.bucketWeights ? clone(this.state.bucketWeights) : null
+  }
+
+  async saveBucketWeights(bucketWeights: BucketWeights): Promise<void> {
+    await this.commit({ bucketWeights })
+  }
+
+  async loadModelWeights(): Promise<ModelWeights | null> {
+    return this.state.modelWeights ? clone(this.state.modelWeights) : null
+  }
+
+  async saveModelWeights(weights: ModelWeights): Promise<void> {
+    await this.commit({ modelWeights: weights })
+  }
+
+  async loadModelPosteriors(): Promise<ModelPosteriors | null> {
+    return this.state.modelPosteriors ? clone(this.state.modelPosteriors) : null
+  }
+
+  async saveModelPosteriors(posteriors: ModelPosteriors): Promise<void> {
+    await this.commit({ modelPosteriors: posteriors })
+  }
+
+  async loadWeightVelocity(): Promise<WeightVelocity | null> {
+    return this.state.weightVelocity ? clone(this.state.weightVelocity) : null
+  }
+
+  async saveWeightVelocity(velocity: WeightVelocity): Promise<void> {
+    await this.commit({ weightVelocity: velocity })
+  }
+
+  async loadActions(siteId?: string): Promise<SEOAction[]> {
+    return clone(bySite(this.state.actions, siteId))
+  }
+
+  async saveActions(actions: SEOAction[]): Promise<void> {
+    await this.commit({ actions })
+  }
+
+  async loadRuns(siteId?: string): Promise<AnalysisRun[]> {
+    return clone(bySite(this.state.runs, siteId))
+  }
+
+  async saveRun(run: AnalysisRun): Promise<void> {
+    await this.commit({ run })
+  }
+
+  async loadPlans(siteId?: string): Promise<DailyPlan[]> {
+    return clone(bySite(this.state.plans, siteId))
+  }
+
+  async savePlan(plan: DailyPlan): Promise<void> {
+    await this.commit({ plan })
+  }
+
+  async loadSnapshots(siteId?: string): Promise<PageSnapshot[]> {
+    return clone(bySite(this.state.snapshots, siteId))
+  }
+
+  async saveSnapshots(snapshots: PageSnapshot[]): Promise<void> {
+    await this.commit({ snapshots })
+  }
+
+  async loadWeightHistory(): Promise<WeightVersion[]> {
+    return clone(this.state.weightHistory)
+  }
+
+  async saveWeightVersion(version: WeightVersion): Promise<void> {
+    await this.commit({ weightVersions: [version] })
+  }
+
+  async load(siteId?: string): Promise<StateSnapshot> {
+    return {
+      weights: await this.loadWeights(),
+      bucketWeights: await this.loadBucketWeights(),
+      modelWeights: await this.loadModelWeights(),
+      modelPosteriors: await this.loadModelPosteriors(),
+      weightVelocity: await this.loadWeightVelocity(),
+      actions: await this.loadActions(siteId),
+      runs: await this.loadRuns(siteId),
+      plans: await this.loadPlans(siteId),
+      snapshots: await this.loadSnapshots(siteId),
+      weightHistory: await this.loadWeightHistory(),
+    }
+  }
+
+  async commit(changes: StateCommit): Promise<void> {
+    this.state = applyCommit(this.state, changes, this.limits)
+  }
+
+  /**
+   * Drop all stored state
+   */
+  reset(): void {
+    this.state = createEmptyState()
+  }
+}
+
+export function createMemoryStateStore(
+  initial?: Partial<StateSnapshot>,
+  limits?: StateStoreLimits
+): MemoryStateStore {
+  return new MemoryStateStore(initial, limits)
+}
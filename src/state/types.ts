@@ -0,0 +1,108 @@
+// ============================================================
+// cr0n-engine — State Store Types
+// Pluggable persistence for weights, actions, runs and plans
+// ============================================================
+
+import type {
+  WeightConfig,
+  BucketWeights,
+  ModelWeights,
+  ModelPosteriors,
+  SEOAction,
+  AnalysisRun,
+  DailyPlan,
+  PageSnapshot,
+  WeightVersion,
+  WeightVelocity,
+} from '../core/types.js'
+
+// ============================================================
+// State Snapshot
+// ============================================================
+
+/**
+ * Everything a cycle needs from prior runs.
+ * `null` weights mean nothing has been saved yet.
+ */
+export interface StateSnapshot {
+  weights: WeightConfig | null
+  bucketWeights: BucketWeights | null
+  modelWeights: ModelWeights | null
+  modelPosteriors: ModelPosteriors | null
+  weightVelocity: WeightVelocity | null  // Content weight momentum
+  actions: SEOAction[]
+  runs: AnalysisRun[]
+  plans: DailyPlan[]
+  snapshots: PageSnapshot[]
+  weightHistory: WeightVersion[]
+}
+
+/**
+ * A set of changes produced by one cycle.
+ * Applied all-or-nothing by `StateStore.commit`.
+ */
+export interface StateCommit {
+  weights?: WeightConfig
+  bucketWeights?: BucketWeights
+  modelWeights?: ModelWeights
+  modelPosteriors?: ModelPosteriors
+  weightVelocity?: WeightVelocity
+  actions?: SEOAction[]         // Upserted by action key
+  run?: AnalysisRun             // Appended to run history
+  plan?: DailyPlan              // Replaces the plan for the same site + date
+  snapshots?: PageSnapshot[]    // Upserted by site + url + date
+  weightVersions?: WeightVersion[]  // Appended to the weight ledger
+}
+
+// ============================================================
+// State Store Interface
+// ============================================================
+
+/**
+ * Interface that each persistence backend must implement.
+ * Actions, runs and plans are scoped by siteId when one is given.
+ */
+export interface StateStore {
+  loadWeights(): Promise<WeightConfig | null>
+  saveWeights(weights: WeightConfig): Promise<void>
+
+  loadBucketWeights(): Promise<BucketWeights | null>
+  saveBucketWeights(bucketWeights: BucketWeights): Promise<void>
+
+  loadModelWeights(): Promise<ModelWeights | null>
+  saveModelWeights(weights: ModelWeights): Promise<void>
+
+  loadModelPosteriors(): Promise<ModelPosteriors | null>
+  saveModelPosteriors(posteriors: ModelPosteriors): Promise<void>
+
+  loadWeightVelocity(): Promise<WeightVelocity | null>
+  saveWeightVelocity(velocity: WeightVelocity): Promise<void>
+
+  loadActions(siteId?: string): Promise<SEOAction[]>
+  saveActions(actions: SEOAction[]): Promise<void>
+
+  loadRuns(siteId?: string): Promise<AnalysisRun[]>
+  saveRun(run: AnalysisRun): Promise<void>
+
+  loadPlans(siteId?: string): Promise<DailyPlan[]>
+  savePlan(plan: DailyPlan): Promise<void>
+
+  loadSnapshots(siteId?: string): Promise<PageSnapshot[]>
+  saveSnapshots(snapshots: PageSnapshot[]): Promise<void>
+
+  loadWeightHistory(): Promise<WeightVersion[]>
+  saveWeightVersion(version: WeightVersion): Promise<void>
+
+  /** Load the full prior state for a site */
+  load(siteId?: string): Promise<StateSnapshot>
+
+  /** Persist a cycle's changes atomically: a reader sees all of them or none */
+  commit(changes: StateCommit): Promise<void>
+}
+
+export interface StateStoreLimits {
+  maxRuns?: number    // Oldest runs are dropped beyond this, default 365
+  maxPlans?: number   // Oldest plans are dropped beyond this, default 30
+  maxSnapshotDays?: number  // Snapshots older than this (from the newest) are dropped, default 480
+  maxWeightVersions?: number  // Oldest weight versions are dropped beyond this, default 365
+}